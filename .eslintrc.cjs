@@ -38,7 +38,22 @@ const config = {
       },
     ],
   },
+  overrides: [
+    {
+      files: ['packages/*/bin/**'],
+      env: {
+        node: true,
+      },
+      rules: {
+        // The CLI is imported from the build output, see `modules.d.ts`.
+        'import/no-unresolved': ['error', { ignore: ['/dist/node/cli\\.js$'] }],
+      },
+    },
+  ],
   settings: {
+    // These packages are CommonJS, so their named exports can't be imported in Node,
+    // and have to be accessed on the default export.
+    'import/ignore': ['node_modules/fast-glob/'],
     'import/resolver': {
       typescript: true,
     },
@@ -0,0 +1,4 @@
+/**
+ * The CLI is imported from the build output, which only exists after running `pnpm build`.
+ */
+declare module '*/dist/node/cli.js' {}
@@ -23,7 +23,7 @@ interface HotCallback {
 }
 
 //-----------------------------------------------------------------------------------
-// Injected by esbuild's define API.
+// Injected by the dev server when serving this module, see `clientInjectionsPlugin`.
 //-----------------------------------------------------------------------------------
 
 declare const __BASE__: string
@@ -98,6 +98,9 @@ const ctxToListenersMap = new Map<string, typeof customListeners>()
 
 const dataMap = new Map<string, unknown>()
 
+// Map from the ID of an imported stylesheet to the style element that applies it.
+const sheetsMap = new Map<string, HTMLStyleElement>()
+
 let pending = false
 
 let queued: Promise<(() => void) | undefined>[] = []
@@ -351,7 +354,7 @@ async function fetchUpdate(update: Update) {
       const explicit = update.explicitImportRequired ? 'import&' : ''
 
       fetchedModule = await import(
-        `${base}${acceptedPath?.slice(1)}${explicit}t=${update.timestamp}${queryString}`
+        `${base}${acceptedPath?.slice(1)}?${explicit}t=${update.timestamp}${queryString}`
       )
     } catch (err) {
       warnFailedFetch(err as Error, update.acceptedPath)
@@ -491,6 +494,33 @@ function cleanUrl(pathname: string): string {
   return `${url.pathname}${url.search}`
 }
 
+/**
+ * Apply an imported stylesheet, or replace its content after an update.
+ */
+export function updateStyle(id: string, content: string): void {
+  let style = sheetsMap.get(id)
+
+  if (!style) {
+    style = document.createElement('style')
+    style.setAttribute('type', 'text/css')
+    style.setAttribute('data-vite-dev-id', id)
+    document.head.appendChild(style)
+
+    sheetsMap.set(id, style)
+  }
+
+  style.textContent = content
+}
+
+/**
+ * Remove an imported stylesheet that's no longer imported.
+ */
+export function removeStyle(id: string): void {
+  sheetsMap.get(id)?.remove()
+
+  sheetsMap.delete(id)
+}
+
 /**
  * Utility function available to other modules participating with HMR stuff.
  */
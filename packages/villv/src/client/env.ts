@@ -1,5 +1,5 @@
 //-----------------------------------------------------------------------------------
-// Injected by esbuild's define API.
+// Injected by the dev server when serving this module, see `clientInjectionsPlugin`.
 //-----------------------------------------------------------------------------------
 declare const __MODE__: string
 
@@ -0,0 +1,91 @@
+import { execFile, spawn, type ChildProcess } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { promisify, stripVTControlCharacters } from 'node:util'
+
+import { afterEach, beforeAll, describe, expect, test } from 'vitest'
+
+import { version } from '../../../package.json'
+
+/**
+ * These tests run the built package, i.e. `pnpm build` has to run first.
+ */
+const packageDirectory = fileURLToPath(new URL('../../..', import.meta.url))
+
+const bin = path.join(packageDirectory, 'bin', 'villv.js')
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Wait for the CLI to print the local URL of the server.
+ */
+function waitForLocalUrl(child: ChildProcess): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let output = ''
+
+    child.stdout?.on('data', (data: Buffer) => {
+      output += stripVTControlCharacters(data.toString())
+
+      const url = output.match(/Local:\s+(http:\/\/\S+)/)?.[1]
+
+      if (url) {
+        resolve(url)
+      }
+    })
+
+    child.stderr?.on('data', (data: Buffer) => {
+      output += data.toString()
+    })
+
+    child.on('exit', (code) => {
+      reject(new Error(`The CLI exited with code ${code}:\n${output}`))
+    })
+  })
+}
+
+describe('cli', () => {
+  let root: string
+
+  let child: ChildProcess | undefined
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'villv-cli-'))
+
+    fs.writeFileSync(
+      path.join(root, 'index.html'),
+      '<script type="module" src="/main.js"></script>',
+    )
+
+    fs.writeFileSync(path.join(root, 'main.js'), 'export default 1\n')
+
+    return () => fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  afterEach(() => {
+    child?.kill()
+    child = undefined
+  })
+
+  test('prints the version', async () => {
+    const { stdout } = await execFileAsync(process.execPath, [bin, '--version'])
+
+    expect(stdout).toContain(version)
+  })
+
+  test('starts the development server', async () => {
+    child = spawn(process.execPath, [bin, '--port', '5790'], { cwd: root })
+
+    const url = await waitForLocalUrl(child)
+
+    const client = await fetch(new URL('/@vite/client', url))
+
+    expect(client.status).toBe(200)
+    expect(client.headers.get('content-type')).toMatch(/javascript/)
+
+    const html = await fetch(url).then((response) => response.text())
+
+    expect(html).toContain('/@vite/client')
+  })
+})
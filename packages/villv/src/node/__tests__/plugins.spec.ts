@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest'
+
+import { createHookFilterMatcher } from '../plugins/index.js'
+
+describe('createHookFilterMatcher', () => {
+  const matchesHookFilter = createHookFilterMatcher('/root')
+
+  test('matches every ID with a global regular expression', () => {
+    const hook = { filter: { id: /\.js$/g }, handler() {} }
+
+    expect(matchesHookFilter(hook, '/root/a.js')).toBe(true)
+    expect(matchesHookFilter(hook, '/root/b.js')).toBe(true)
+    expect(matchesHookFilter(hook, '/root/c.css')).toBe(false)
+  })
+
+  test('resolves glob patterns against the root', () => {
+    const hook = { filter: { id: 'src/**' }, handler() {} }
+
+    expect(matchesHookFilter(hook, '/root/src/a.js')).toBe(true)
+    expect(matchesHookFilter(hook, '/other/src/a.js')).toBe(false)
+  })
+
+  test('only matches virtual modules with regular expressions', () => {
+    expect(matchesHookFilter({ filter: { id: '**' }, handler() {} }, '\0virtual:a')).toBe(false)
+    expect(matchesHookFilter({ filter: { id: /^\0virtual:/ }, handler() {} }, '\0virtual:a')).toBe(
+      true,
+    )
+  })
+
+  test('matches the code with strings and sticky regular expressions', () => {
+    const hook = { filter: { code: ['import.meta.hot', /export/y] }, handler() {} }
+
+    expect(matchesHookFilter(hook, '/root/a.js', 'export default 1')).toBe(true)
+    expect(matchesHookFilter(hook, '/root/a.js', 'export default 2')).toBe(true)
+    expect(matchesHookFilter(hook, '/root/a.js', 'import.meta.hot.accept()')).toBe(true)
+    expect(matchesHookFilter(hook, '/root/a.js', 'const a = 1')).toBe(false)
+  })
+})
@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'vitest'
+
+import { numberToPosition, positionToNumber } from '../utils.js'
+
+describe('numberToPosition', () => {
+  const source = 'const a = 1\nconst b = a + 1\n\nexport { b }\n'
+
+  test('returns a 1-based line and a 0-based column', () => {
+    expect(numberToPosition(source, 0)).toEqual({ line: 1, column: 0 })
+    expect(numberToPosition(source, 22)).toEqual({ line: 2, column: 10 })
+    expect(numberToPosition(source, 29)).toEqual({ line: 4, column: 0 })
+  })
+
+  test('round trips with positionToNumber', () => {
+    for (let offset = 0; offset < source.length; offset++) {
+      expect(positionToNumber(source, numberToPosition(source, offset))).toBe(offset)
+    }
+  })
+})
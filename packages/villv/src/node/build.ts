@@ -1,9 +1,45 @@
-import type { Logger } from './logger'
+import fs from 'node:fs'
+import path from 'node:path'
 
-/**
- * TODO
- */
-export interface BuildOptions {}
+import aliasPlugin from '@rollup/plugin-alias'
+import commonjsPlugin from '@rollup/plugin-commonjs'
+import colors from 'picocolors'
+import type {
+  InputOption,
+  LoggingFunction,
+  ModuleFormat,
+  OutputOptions,
+  Plugin as RollupPlugin,
+  RollupBuild,
+  RollupError,
+  RollupOptions,
+  RollupOutput,
+  RollupWarning,
+  RollupWatcher,
+} from 'rollup'
+
+import { resolveConfig, type InlineConfig, type ResolvedConfig } from './config.js'
+import { ESBUILD_MODULES_TARGET, VERSION } from './constants.js'
+import type { Logger } from './logger.js'
+import { findNearestPackageData, type PackageJson } from './packages.js'
+import type { Plugin } from './plugin.js'
+import { buildEsbuildPlugin } from './plugins/esbuild.js'
+import { buildHtmlPlugin } from './plugins/html.js'
+import { applyHookFilters } from './plugins/index.js'
+import { manifestPlugin } from './plugins/manifest.js'
+import { metadataPlugin } from './plugins/metadata.js'
+import { resolvePlugin } from './plugins/resolve.js'
+import { terserPlugin } from './plugins/terser.js'
+import type {
+  BuildOptions,
+  LibraryFormat,
+  LibraryOptions,
+  ModulePreloadOptions,
+  ResolveModulePreloadDependenciesFn,
+} from './server/build.js'
+import { ssrManifestPlugin } from './ssr/ssrManifestPlugin.js'
+import { asyncFlatten, copyDirectory, emptyDirectory, normalizePath } from './utils.js'
+import { resolveChokidarOptions } from './watch.js'
 
 export interface ResolvedBuildOptions
   extends Required<Omit<BuildOptions, 'polyfillModulePreload'>> {
@@ -15,29 +51,552 @@ export interface ResolvedModulePreloadOptions {
   resolveDependencies?: ResolveModulePreloadDependenciesFn
 }
 
-export type ResolveModulePreloadDependenciesFn = (
-  filename: string,
-  deps: string[],
-  context: {
-    hostId: string
-    hostType: 'html' | 'js'
-  },
-) => string[]
-
 /**
- * TODO
+ * Resolve the build options, filling in defaults for anything that wasn't specified.
  */
 export function resolveBuildOptions(
   raw: BuildOptions | undefined,
   logger: Logger,
-  root: string,
+  _root: string,
 ): ResolvedBuildOptions {
-  raw
-  logger
-  root
+  const { polyfillModulePreload, ...options } = raw ?? {}
+
+  if (polyfillModulePreload !== undefined) {
+    logger.warn('polyfillModulePreload is deprecated. Use modulePreload.polyfill instead.')
+  }
+
+  const modulePreload: BuildOptions['modulePreload'] =
+    polyfillModulePreload === false && options.modulePreload === undefined
+      ? { polyfill: false }
+      : options.modulePreload
+
+  const defaultModulePreload: ResolvedModulePreloadOptions = {
+    polyfill: true,
+  }
+
+  const target = options.target ?? 'modules'
+
+  const minify =
+    options.minify === true ? 'esbuild' : options.minify ?? (options.ssr ? false : 'esbuild')
+
+  const resolved: ResolvedBuildOptions = {
+    target: target === 'modules' ? ESBUILD_MODULES_TARGET : target,
+    modulePreload:
+      modulePreload === false
+        ? false
+        : typeof modulePreload === 'object'
+        ? { ...defaultModulePreload, ...(modulePreload satisfies ModulePreloadOptions) }
+        : defaultModulePreload,
+    outDirectory: options.outDirectory ?? 'dist',
+    assetsDirectory: options.assetsDirectory ?? 'assets',
+    assetsInlineLimit: options.assetsInlineLimit ?? 4096,
+    cssCodeSplit: options.cssCodeSplit ?? !options.library,
+    cssTarget: options.cssTarget || (target === 'modules' ? ESBUILD_MODULES_TARGET : target),
+    cssMinify: options.cssMinify ?? !!minify,
+    sourcemap: options.sourcemap ?? false,
+    minify,
+    terserOptions: options.terserOptions ?? {},
+    rollupOptions: options.rollupOptions ?? {},
+    commonjsOptions: {
+      include: [/node_modules/],
+      extensions: ['.js', '.cjs'],
+      ...options.commonjsOptions,
+    },
+    dynamicImportVariablesOptions: {
+      warnOnError: true,
+      exclude: [/node_modules/],
+      ...options.dynamicImportVariablesOptions,
+    },
+    write: options.write ?? true,
+    emptyOutDirectory: options.emptyOutDirectory ?? null,
+    copyPublicDirectory: options.copyPublicDirectory ?? true,
+    manifest: options.manifest ?? false,
+    library: options.library ?? false,
+    ssr: options.ssr ?? false,
+    ssrManifiest: options.ssrManifiest ?? false,
+    ssrEmitAssets: options.ssrEmitAssets ?? false,
+    reportCompressedSize: options.reportCompressedSize ?? true,
+    chunksSizeWarningLimit: options.chunksSizeWarningLimit ?? 500,
+    watch: options.watch ?? null,
+  }
+
+  return resolved
+}
+
+/**
+ * Internal plugins that are applied before and after the user plugins during build.
+ */
+export async function resolveBuildPlugins(
+  config: ResolvedConfig,
+): Promise<{ pre: Plugin[]; post: Plugin[] }> {
+  const options = config.build
+
+  const { commonjsOptions } = options
+
+  const usePluginCommonjs =
+    !Array.isArray(commonjsOptions.include) || commonjsOptions.include.length !== 0
+
+  const rollupOptionsPlugins = options.rollupOptions.plugins
+
+  const userRollupPlugins = await asyncFlatten(
+    Array.isArray(rollupOptionsPlugins) ? rollupOptionsPlugins : [rollupOptionsPlugins],
+  )
 
   return {
-    modulePreload: false,
+    pre: [
+      metadataPlugin(),
+      aliasPlugin({ entries: config.resolve.alias }) as Plugin,
+      ...(usePluginCommonjs ? [commonjsPlugin(commonjsOptions) as Plugin] : []),
+      ...(userRollupPlugins.filter(Boolean) as Plugin[]),
+      resolvePlugin({
+        ...config.resolve,
+        root: config.root,
+        isProduction: config.isProduction,
+        isBuild: true,
+        ssrConfig: config.ssr,
+        asSrc: true,
+        preferRelative: false,
+        tryIndex: true,
+      }),
+    ],
+    post: [
+      ...(config.esbuild !== false ? [buildEsbuildPlugin(config)] : []),
+      ...(options.minify === 'terser' ? [terserPlugin(config)] : []),
+      ...(options.manifest ? [manifestPlugin(config)] : []),
+      ...(options.ssrManifiest ? [ssrManifestPlugin(config)] : []),
+    ],
+  }
+}
+
+/**
+ * Bundles the app for production.
+ *
+ * @returns The output of every bundle, or a watcher if `build.watch` is enabled.
+ */
+export async function build(
+  inlineConfig: InlineConfig = {},
+): Promise<RollupOutput | RollupOutput[] | RollupWatcher> {
+  const config = await resolveConfig(inlineConfig, 'build', 'production', 'production')
+
+  const options = config.build
+
+  const ssr = !!options.ssr
+
+  const libraryOptions = options.library
+
+  config.logger.info(
+    colors.cyan(
+      `vite v${VERSION} ${colors.green(
+        `building ${ssr ? `SSR bundle ` : ``}for ${config.mode}...`,
+      )}`,
+    ),
+  )
+
+  const resolve = (p: string) => path.resolve(config.root, p)
+
+  const input: InputOption = libraryOptions
+    ? options.rollupOptions.input ?? resolveLibraryEntry(libraryOptions.entry, resolve)
+    : typeof options.ssr === 'string'
+    ? resolve(options.ssr)
+    : options.rollupOptions.input ?? resolve('index.html')
+
+  if (ssr && typeof input === 'string' && input.endsWith('.html')) {
+    throw new Error(
+      `rollupOptions.input should not be an html file when building for SSR. ` +
+        `Please specify a dedicated SSR entry.`,
+    )
+  }
+
+  const outDirectory = resolve(options.outDirectory)
+
+  const buildPlugins = await resolveBuildPlugins(config)
+
+  const plugins = applyHookFilters(
+    [
+      ...buildPlugins.pre,
+      ...config.plugins,
+      ...(ssr || libraryOptions ? [] : [buildHtmlPlugin(config)]),
+      ...buildPlugins.post,
+    ],
+    config.root,
+  )
+
+  const rollupOptions: RollupOptions = {
+    context: 'globalThis',
+    preserveEntrySignatures: ssr ? 'allow-extension' : libraryOptions ? 'strict' : false,
+    cache: options.watch ? undefined : false,
+    ...options.rollupOptions,
+    input,
+    plugins: plugins as RollupPlugin[],
+    onwarn(warning, warn) {
+      onRollupWarning(warning, warn, config)
+    },
+  }
+
+  const packageJson = findNearestPackageData(config.root, config.packageCache)?.packageJson
+
+  const buildOutputOptions = (output: OutputOptions = {}): OutputOptions => {
+    // Default format is 'es' for regular and for SSR builds
+    const format = output.format ?? 'es'
+
+    const jsExtension =
+      libraryOptions &&
+      (format === 'es' || format === 'cjs' || format === 'umd' || format === 'iife')
+        ? resolveOutputJsExtension(format, packageJson?.type)
+        : 'js'
+
+    return {
+      dir: outDirectory,
+      format,
+      exports: 'auto',
+      sourcemap: options.sourcemap,
+      name: libraryOptions ? libraryOptions.name : undefined,
+      // es2015 enables `generatedCode.symbols`
+      // - add `Symbol.toStringTag` when building an es module into a cjs chunk
+      // - add `Symbol.toStringTag` for the module's default export
+      generatedCode: 'es2015',
+      entryFileNames: ssr
+        ? `[name].${jsExtension}`
+        : libraryOptions
+        ? ({ name }) =>
+            resolveLibraryFilename(libraryOptions, format, name, packageJson, jsExtension)
+        : path.posix.join(options.assetsDirectory, `[name]-[hash].${jsExtension}`),
+      chunkFileNames: libraryOptions
+        ? `[name]-[hash].${jsExtension}`
+        : path.posix.join(options.assetsDirectory, `[name]-[hash].${jsExtension}`),
+      assetFileNames: libraryOptions
+        ? `[name].[ext]`
+        : path.posix.join(options.assetsDirectory, `[name]-[hash].[ext]`),
+      inlineDynamicImports: format === 'umd' || format === 'iife',
+      ...output,
+    }
+  }
+
+  // resolve library mode outputs
+  const outputs = resolveBuildOutputs(options.rollupOptions.output, libraryOptions, config.logger)
+
+  const normalizedOutputs = Array.isArray(outputs)
+    ? outputs.map(buildOutputOptions)
+    : [buildOutputOptions(outputs)]
+
+  const outDirectories = normalizedOutputs.map(({ dir }) => resolve(dir ?? outDirectory))
+
+  // watch file changes with rollup
+  if (options.watch) {
+    config.logger.info(colors.cyan(`\nwatching for file changes...`))
+
+    const { watch } = await import('rollup')
+
+    const watcher = watch({
+      ...rollupOptions,
+      output: normalizedOutputs,
+      watch: {
+        ...options.watch,
+        chokidar: resolveChokidarOptions(config.cacheDir, options.watch.chokidar),
+      },
+    })
+
+    watcher.on('event', (event) => {
+      if (event.code === 'BUNDLE_START') {
+        config.logger.info(colors.cyan(`\nbuild started...`))
+
+        if (options.write) {
+          prepareOutDirectory(outDirectories, options.emptyOutDirectory, config)
+        }
+      } else if (event.code === 'BUNDLE_END') {
+        event.result.close()
+
+        config.logger.info(colors.cyan(`built in ${event.duration}ms.`))
+      } else if (event.code === 'ERROR') {
+        outputBuildError(event.error, config)
+      }
+    })
+
+    return watcher
+  }
+
+  let bundle: RollupBuild | undefined
+
+  try {
+    const { rollup } = await import('rollup')
+
+    bundle = await rollup(rollupOptions)
+
+    if (options.write) {
+      prepareOutDirectory(outDirectories, options.emptyOutDirectory, config)
+    }
+
+    const results: RollupOutput[] = []
+
+    for (const output of normalizedOutputs) {
+      results.push(await bundle[options.write ? 'write' : 'generate'](output))
+    }
+
+    return Array.isArray(outputs) ? results : results[0]!
+  } catch (e) {
+    outputBuildError(e as RollupError, config)
+    throw e
+  } finally {
+    await bundle?.close()
+  }
+}
+
+/**
+ * Resolve the library entry points relative to the root.
+ */
+function resolveLibraryEntry(
+  entry: LibraryOptions['entry'],
+  resolve: (p: string) => string,
+): InputOption {
+  if (typeof entry === 'string') {
+    return resolve(entry)
+  }
+
+  if (Array.isArray(entry)) {
+    return entry.map(resolve)
+  }
+
+  return Object.fromEntries(
+    Object.entries(entry).map(([alias, file]) => [alias, resolve(file)] as const),
+  )
+}
+
+/**
+ * Scoped package names only use the name after the scope.
+ */
+function getPackageName(name?: string): string | undefined {
+  return name?.[0] === '@' ? name.split('/')[1] : name
+}
+
+/**
+ * Choose a JS extension that'll be interpreted correctly given the package's type.
+ */
+export function resolveOutputJsExtension(
+  format: LibraryFormat,
+  type: string = 'commonjs',
+): 'js' | 'cjs' | 'mjs' {
+  if (type === 'module') {
+    return format === 'cjs' || format === 'umd' ? 'cjs' : 'js'
+  }
+
+  return format === 'es' ? 'mjs' : 'js'
+}
+
+/**
+ * Resolve the filename of a library entry, via the `fileName` option or the package name.
+ */
+export function resolveLibraryFilename(
+  libraryOptions: LibraryOptions,
+  format: ModuleFormat,
+  entryName: string,
+  packageJson?: PackageJson,
+  extension?: string,
+): string {
+  if (typeof libraryOptions.fileName === 'function') {
+    return libraryOptions.fileName(format, entryName)
+  }
+
+  const name =
+    libraryOptions.fileName ||
+    (packageJson && typeof libraryOptions.entry === 'string'
+      ? getPackageName(packageJson.name)
+      : entryName)
+
+  if (!name) {
+    throw new Error(
+      'Name in package.json is required if option "build.library.fileName" is not provided.',
+    )
+  }
+
+  extension ??= resolveOutputJsExtension(format as LibraryFormat, packageJson?.type)
+
+  if (format === 'cjs' || format === 'es') {
+    return `${name}.${extension}`
+  }
+
+  return `${name}.${format}.${extension}`
+}
+
+/**
+ * The formats that a library is built in, i.e. one output per format.
+ */
+export function resolveLibraryFormats(libraryOptions: LibraryOptions): LibraryFormat[] {
+  return (
+    libraryOptions.formats ?? (hasMultipleEntries(libraryOptions) ? ['es', 'cjs'] : ['es', 'umd'])
+  )
+}
+
+function hasMultipleEntries(libraryOptions: LibraryOptions): boolean {
+  return typeof libraryOptions.entry !== 'string' && Object.values(libraryOptions.entry).length > 1
+}
+
+/**
+ * In library mode, create an output for every requested format, and validate the options.
+ */
+export function resolveBuildOutputs(
+  outputs: OutputOptions | OutputOptions[] | undefined,
+  libraryOptions: LibraryOptions | false,
+  logger: Logger,
+): OutputOptions | OutputOptions[] | undefined {
+  if (!libraryOptions) {
+    return outputs
+  }
+
+  const libraryHasMultipleEntries = hasMultipleEntries(libraryOptions)
+
+  const libraryFormats = resolveLibraryFormats(libraryOptions)
+
+  if (!Array.isArray(outputs)) {
+    if (libraryFormats.includes('umd') || libraryFormats.includes('iife')) {
+      if (libraryHasMultipleEntries) {
+        throw new Error(
+          'Multiple entry points are not supported when output formats include "umd" or "iife".',
+        )
+      }
+
+      if (!libraryOptions.name) {
+        throw new Error(
+          'Option "build.library.name" is required when output formats include "umd" or "iife".',
+        )
+      }
+    }
+
+    return libraryFormats.map((format) => ({ ...outputs, format }))
+  }
+
+  if (libraryOptions.formats) {
+    logger.warn(
+      colors.yellow(
+        '"build.library.formats" will be ignored because "build.rollupOptions.output" is already an array format.',
+      ),
+    )
+  }
+
+  outputs.forEach((output) => {
+    if ((output.format === 'umd' || output.format === 'iife') && !output.name) {
+      throw new Error(
+        'Entries in "build.rollupOptions.output" must specify "name" when the format is "umd" or "iife".',
+      )
+    }
+  })
+
+  return outputs
+}
+
+function outputBuildError(e: RollupError, config: ResolvedConfig): void {
+  let msg = colors.red((e.plugin ? `[${e.plugin}] ` : '') + e.message)
+
+  if (e.id) {
+    msg += `\nfile: ${colors.cyan(e.id + (e.loc ? `:${e.loc.line}:${e.loc.column}` : ''))}`
+  }
+
+  if (e.frame) {
+    msg += `\n` + colors.yellow(e.frame)
+  }
+
+  config.logger.error(msg, { error: e })
+}
+
+/**
+ * Empty the output directories and copy the public directory into them.
+ *
+ * Output directories outside of the root aren't emptied unless explicitly requested.
+ */
+function prepareOutDirectory(
+  outDirectories: string[],
+  emptyOutDirectory: boolean | null,
+  config: ResolvedConfig,
+): void {
+  const nonDuplicateDirectories = new Set(outDirectories)
+
+  let outside = false
+
+  if (emptyOutDirectory == null) {
+    for (const outDirectory of nonDuplicateDirectories) {
+      if (
+        fs.existsSync(outDirectory) &&
+        !normalizePath(outDirectory).startsWith(config.root + '/')
+      ) {
+        config.logger.warn(
+          colors.yellow(
+            `\n${colors.bold(`(!)`)} outDirectory ${colors.white(
+              colors.dim(outDirectory),
+            )} is not inside project root and will not be emptied.\n` +
+              `Use --emptyOutDirectory to override.\n`,
+          ),
+        )
+
+        outside = true
+
+        break
+      }
+    }
+  }
+
+  for (const outDirectory of nonDuplicateDirectories) {
+    if (!outside && emptyOutDirectory !== false && fs.existsSync(outDirectory)) {
+      // skip the other output directories that are nested in the current one
+      const skipDirectories = outDirectories
+        .map((directory) => {
+          const relative = path.relative(outDirectory, directory)
+
+          return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+            ? relative
+            : ''
+        })
+        .filter(Boolean)
+
+      emptyDirectory(outDirectory, [...skipDirectories, '.git'])
+    }
+
+    if (config.build.copyPublicDirectory && config.publicDir && fs.existsSync(config.publicDir)) {
+      copyDirectory(config.publicDir, outDirectory)
+    }
+  }
+}
+
+const warningIgnoreList = [`CIRCULAR_DEPENDENCY`, `THIS_IS_UNDEFINED`]
+
+/**
+ * Forward Rollup warnings to the user's handler or the logger, ignoring the noisy ones.
+ */
+function onRollupWarning(
+  warning: RollupWarning,
+  warn: LoggingFunction,
+  config: ResolvedConfig,
+): void {
+  const viteWarn: LoggingFunction = (warnLog) => {
+    const warning = typeof warnLog === 'function' ? warnLog() : warnLog
+
+    if (typeof warning === 'object') {
+      if (warning.code === 'UNRESOLVED_IMPORT') {
+        config.logger.warn(
+          colors.yellow(
+            `[vite]: Rollup failed to resolve import "${warning.exporter}" from "${warning.id}".\n` +
+              `It will be treated as an external dependency.`,
+          ),
+        )
+        return
+      }
+
+      if (warning.plugin === 'rollup-plugin-dynamic-import-variables') {
+        return
+      }
+
+      if (warning.code && warningIgnoreList.includes(warning.code)) {
+        return
+      }
+    }
+
+    warn(warnLog)
+  }
+
+  const userOnWarn = config.build.rollupOptions.onwarn
+
+  if (userOnWarn) {
+    userOnWarn(warning, viteWarn)
+  } else {
+    viteWarn(warning)
   }
 }
 
@@ -0,0 +1,282 @@
+import { performance } from 'node:perf_hooks'
+
+import { cac } from 'cac'
+import colors from 'picocolors'
+
+import { VERSION } from './constants.js'
+import { createLogger, type LogLevel } from './logger.js'
+import type { BuildOptions } from './server/build.js'
+import type { ServerOptions } from './server/index.js'
+
+const startTime = performance.now()
+
+const cli = cac('villv')
+
+/**
+ * Options shared by every command.
+ */
+interface GlobalCLIOptions {
+  '--'?: string[]
+  c?: boolean | string
+  config?: string
+  base?: string
+  l?: LogLevel
+  logLevel?: LogLevel
+  clearScreen?: boolean
+  d?: boolean | string
+  debug?: boolean | string
+  f?: string
+  filter?: string
+  m?: string
+  mode?: string
+  force?: boolean
+}
+
+interface BuildCLIOptions
+  extends GlobalCLIOptions,
+    Omit<BuildOptions, 'sourcemap' | 'ssrManifiest'> {
+  sourcemap?: BuildOptions['sourcemap'] | 'true' | 'false'
+  ssrManifest?: BuildOptions['ssrManifiest']
+}
+
+interface ServerCLIOptions extends GlobalCLIOptions, ServerOptions {}
+
+interface PreviewCLIOptions extends GlobalCLIOptions {
+  host?: string | boolean
+  port?: number
+  strictPort?: boolean
+  https?: boolean
+  open?: boolean | string
+  outDirectory?: string
+}
+
+/**
+ * cac turns repeated flags into arrays, e.g. `--port 3000 --port 3001`. Only keep the last one.
+ */
+function filterDuplicateOptions<T extends object>(options: T): void {
+  for (const [key, value] of Object.entries(options)) {
+    if (Array.isArray(value)) {
+      options[key as keyof T] = value[value.length - 1]
+    }
+  }
+}
+
+/**
+ * Remove the global flags before passing the rest as command specific sub-configs.
+ */
+function cleanOptions<T extends GlobalCLIOptions>(options: T): Omit<T, keyof GlobalCLIOptions> {
+  const ret = { ...options } as GlobalCLIOptions & Record<string, unknown>
+
+  delete ret['--']
+  delete ret.c
+  delete ret.config
+  delete ret.base
+  delete ret.l
+  delete ret.logLevel
+  delete ret.clearScreen
+  delete ret.d
+  delete ret.debug
+  delete ret.f
+  delete ret.filter
+  delete ret.m
+  delete ret.mode
+  delete ret.force
+
+  // convert the sourcemap option to a boolean if necessary
+  if ('sourcemap' in ret) {
+    const sourcemap = ret['sourcemap']
+
+    ret['sourcemap'] = sourcemap === 'true' ? true : sourcemap === 'false' ? false : sourcemap
+  }
+
+  // the flag is spelled correctly, but the build option is still named `ssrManifiest`
+  if ('ssrManifest' in ret) {
+    ret['ssrManifiest'] = ret['ssrManifest']
+
+    delete ret['ssrManifest']
+  }
+
+  return ret as Omit<T, keyof GlobalCLIOptions>
+}
+
+cli
+  .option('-c, --config <file>', `[string] use specified config file`)
+  .option('--base <path>', `[string] public base path (default: /)`)
+  .option('-l, --logLevel <level>', `[string] info | warn | error | silent`)
+  .option('--clearScreen', `[boolean] allow/disable clear screen when logging`)
+  .option('-d, --debug [feat]', `[string | boolean] show debug logs`)
+  .option('-f, --filter <filter>', `[string] filter debug logs`)
+  .option('-m, --mode <mode>', `[string] set env mode`)
+
+// dev
+cli
+  .command('[root]', 'start dev server') // default command
+  .alias('serve') // the command is called 'serve' in the API
+  .alias('dev') // alias to align with the script name
+  .option('--host [host]', `[string] specify hostname`)
+  .option('--port <port>', `[number] specify port`)
+  .option('--https', `[boolean] use TLS + HTTP/2`)
+  .option('--open [path]', `[boolean | string] open browser on startup`)
+  .option('--cors', `[boolean] enable CORS`)
+  .option('--strictPort', `[boolean] exit if specified port is already in use`)
+  .option('--force', `[boolean] force the optimizer to ignore the cache and re-bundle`)
+  .action(async (root: string | undefined, options: ServerCLIOptions) => {
+    filterDuplicateOptions(options)
+
+    const { createServer } = await import('./server/index.js')
+
+    try {
+      const server = await createServer({
+        root,
+        base: options.base,
+        mode: options.mode,
+        configFile: options.config,
+        logLevel: options.logLevel,
+        clearScreen: options.clearScreen,
+        optimizeDependencies: { force: options.force },
+        server: cleanOptions(options),
+      })
+
+      if (!server.httpServer) {
+        throw new Error('HTTP server not available')
+      }
+
+      await server.listen()
+
+      const info = server.config.logger.info
+
+      const startupDuration = colors.dim(
+        `ready in ${colors.reset(colors.bold(Math.ceil(performance.now() - startTime)))} ms`,
+      )
+
+      info(`\n  ${colors.green(`${colors.bold('VILLV')} v${VERSION}`)}  ${startupDuration}\n`, {
+        clear: !server.config.logger.hasWarned,
+      })
+
+      server.printUrls()
+
+      const { bindShortcuts } = await import('./server/shortcuts.js')
+
+      bindShortcuts(server, { print: true })
+    } catch (e) {
+      const error = e as Error
+
+      createLogger(options.logLevel).error(
+        colors.red(`error when starting dev server:\n${error.stack}`),
+        { error },
+      )
+
+      process.exit(1)
+    }
+  })
+
+// build
+cli
+  .command('build [root]', 'build for production')
+  .option('--target <target>', `[string] transpile target (default: 'modules')`)
+  .option('--outDirectory <dir>', `[string] output directory (default: dist)`)
+  .option(
+    '--assetsDirectory <dir>',
+    `[string] directory under outDirectory to place assets in (default: assets)`,
+  )
+  .option(
+    '--assetsInlineLimit <number>',
+    `[number] static asset base64 inline threshold in bytes (default: 4096)`,
+  )
+  .option('--ssr [entry]', `[string] build specified entry for server-side rendering`)
+  .option(
+    '--sourcemap [output]',
+    `[boolean | "inline" | "hidden"] output source maps for build (default: false)`,
+  )
+  .option(
+    '--minify [minifier]',
+    `[boolean | "terser" | "esbuild"] enable/disable minification, ` +
+      `or specify minifier to use (default: esbuild)`,
+  )
+  .option('--manifest [name]', `[boolean | string] emit build manifest json`)
+  .option('--ssrManifest [name]', `[boolean | string] emit ssr manifest json`)
+  .option('--force', `[boolean] force the optimizer to ignore the cache and re-bundle`)
+  .option('--emptyOutDirectory', `[boolean] force empty outDirectory when it's outside of root`)
+  .option('-w, --watch', `[boolean] rebuilds when modules have changed on disk`)
+  .action(async (root: string | undefined, options: BuildCLIOptions) => {
+    filterDuplicateOptions(options)
+
+    const { build } = await import('./build.js')
+
+    try {
+      await build({
+        root,
+        base: options.base,
+        mode: options.mode,
+        configFile: options.config,
+        logLevel: options.logLevel,
+        clearScreen: options.clearScreen,
+        optimizeDependencies: { force: options.force },
+        build: cleanOptions(options) as BuildOptions,
+      })
+    } catch (e) {
+      const error = e as Error
+
+      createLogger(options.logLevel).error(colors.red(`error during build:\n${error.stack}`), {
+        error,
+      })
+
+      process.exit(1)
+    }
+  })
+
+// preview
+cli
+  .command('preview [root]', 'locally preview production build')
+  .option('--host [host]', `[string] specify hostname`)
+  .option('--port <port>', `[number] specify port`)
+  .option('--strictPort', `[boolean] exit if specified port is already in use`)
+  .option('--https', `[boolean] use TLS + HTTP/2`)
+  .option('--open [path]', `[boolean | string] open browser on startup`)
+  .option('--outDirectory <dir>', `[string] output directory (default: dist)`)
+  .action(async (root: string | undefined, options: PreviewCLIOptions) => {
+    filterDuplicateOptions(options)
+
+    const { preview } = await import('./preview.js')
+
+    try {
+      const server = await preview({
+        root,
+        base: options.base,
+        configFile: options.config,
+        logLevel: options.logLevel,
+        mode: options.mode,
+        build: {
+          outDirectory: options.outDirectory,
+        },
+        preview: {
+          port: options.port,
+          strictPort: options.strictPort,
+          host: options.host,
+          https: options.https,
+          open: options.open,
+        },
+      })
+
+      server.printUrls()
+
+      const { bindShortcuts } = await import('./server/shortcuts.js')
+
+      bindShortcuts(server, { print: true })
+    } catch (e) {
+      const error = e as Error
+
+      createLogger(options.logLevel).error(
+        colors.red(`error when starting preview server:\n${error.stack}`),
+        { error },
+      )
+
+      process.exit(1)
+    }
+  })
+
+cli.help()
+
+cli.version(VERSION)
+
+cli.parse()
@@ -29,7 +29,7 @@ import type { DependencyOptimizationOptions } from './optimizer/index.js'
 import { findNearestPackageData, type PackageCache } from './packages.js'
 import type { Plugin } from './plugin.js'
 import { resolveCSSOptions, type CSSOptions, type ResolvedCSSOptions } from './plugins/css.js'
-import { getSortedPluginsBy } from './plugins/index.js'
+import { createPluginHookUtils, getSortedPluginsBy } from './plugins/index.js'
 import type { JsonOptions } from './plugins/json.js'
 import {
   resolvePlugin,
@@ -164,7 +164,7 @@ export interface UserConfig {
    *
    * Set to `false` to disable using ESBuild, i.e. in favor of SWC.
    */
-  esbuild: ESBuildOptions | false
+  esbuild?: ESBuildOptions | false
 
   /**
    * Specify additional glob patterns to be treated as static assets.
@@ -234,7 +234,7 @@ export interface UserConfig {
   /**
    * Set a custom logger.
    */
-  logger: Logger
+  logger?: Logger
 
   /**
    * Whether the screen can be cleared.
@@ -844,8 +844,7 @@ export async function resolveConfig(
       hmrPartialAccept: false,
       ...config.experimental,
     },
-    getSortedPlugins: () => [],
-    getSortedPluginHooks: () => [],
+    ...createPluginHookUtils(userPlugins),
   }
 
   const resolved: ResolvedConfig = {
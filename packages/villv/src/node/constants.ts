@@ -1,4 +1,5 @@
 import path from 'node:path'
+import { fileURLToPath } from 'node:url'
 
 import { version } from '../../package.json'
 import { getClosestProjectDirectory } from '../utils/project.js'
@@ -91,6 +92,18 @@ export const FS_PREFIX = `/@fs/`
  */
 export const VALID_ID_PREFIX = `/@id/`
 
+/**
+ * Prefix for assets emitted by plugins via `this.emitFile` during development,
+ * which are kept in memory and served from this path.
+ */
+export const EMITTED_ASSET_PREFIX = `/@emitted/`
+
+/**
+ * Path of the development server's page and JSON API for inspecting plugin hook metrics
+ * and intermediate transform results.
+ */
+export const INSPECT_PATH = `/__inspect`
+
 /**
  * Plugins that use 'virtual modules' (e.g. for helper functions),
  * prefix the module ID with `\0`, a convention from the rollup ecosystem.
@@ -142,7 +155,9 @@ export const ENV_BUILT_FILE = path.join('dist', 'client', 'env.mjs')
  *
  * TODO: In my own package, I'd like to expost this to the consumer in the cache directory.
  */
-export const VITE_PACKAGE_DIRECTORY = getClosestProjectDirectory(new URL(import.meta.url).href)
+export const VITE_PACKAGE_DIRECTORY = getClosestProjectDirectory(
+  fileURLToPath(new URL('.', import.meta.url)),
+)
 
 /**
  * The absolute location of the dynamically built `client.js` module.
@@ -215,6 +230,16 @@ export const DEFAULT_ASSETS_REGEX = new RegExp(`\\.(` + KNOWN_ASSET_TYPES.join('
  */
 export const DEPENDENCY_VERSION_REGEX = /[?&](v=[\w.-]+)\b/
 
+/**
+ * Websocket subprotocol used by the client to connect to the HMR server.
+ */
+export const HMR_HEADER = 'vite-hmr'
+
+/**
+ * Accept header of the requests that the client sends to check whether the server is back up.
+ */
+export const PING_HEADER = 'text/x-vite-ping'
+
 /**
  * Loopback hosts.
  */
@@ -235,6 +260,11 @@ export const wildcardHosts = new Set(['0.0.0.0', '::', '0000:0000:0000:0000:0000
  */
 export const DEFAULT_DEV_PORT = 5173
 
+/**
+ * Port used for the websocket server when it isn't attached to an existing HTTP server.
+ */
+export const DEFAULT_HMR_PORT = 24678
+
 /**
  * Port to use for preview server.
  */
@@ -1,10 +1,34 @@
+import fs from 'node:fs/promises'
 import type http from 'node:http'
+import type { Http2SecureServer } from 'node:http2'
 import type https from 'node:https'
+import path from 'node:path'
 
+import type Connect from 'connect'
 import type { CorsOptions } from 'cors'
+import { generate } from 'selfsigned'
 
+import type { Logger } from './logger.js'
 import type { ProxyOptions } from './server/middlewares/proxy.js'
 
+declare module 'http2' {
+  /**
+   * With `allowHTTP1`, the server passes both HTTP/1 and HTTP/2 requests to the connect app,
+   * which only uses the request and response APIs that they share.
+   */
+  function createSecureServer(
+    options: SecureServerOptions & { allowHTTP1: true },
+    app: Connect.Server,
+  ): Http2SecureServer
+}
+
+/**
+ * The server created by {@link resolveHttpServer}.
+ *
+ * HTTPS without a proxy creates an HTTP/2 server that also accepts HTTP/1 connections.
+ */
+export type HttpServer = http.Server | Http2SecureServer
+
 export interface CommonServerOptions {
   /**
    * Specify the server port.
@@ -66,11 +90,218 @@ export interface CommonServerOptions {
 
   /**
    * Configure the CORS middlware.
+   *
+   * Set to `false` to disable it.
+   *
+   * @default true
    */
-  cors?: CorsOptions
+  cors?: CorsOptions | boolean
 
   /**
    * Specify server response headers.
    */
   headers?: http.OutgoingHttpHeaders
 }
+
+/**
+ * Start listening on the given port.
+ *
+ * If the port is in use, the next ports are tried until one is available,
+ * unless {@link CommonServerOptions.strictPort} is set.
+ *
+ * @returns The port that the server is listening on.
+ */
+export async function httpServerStart(
+  httpServer: HttpServer,
+  serverOptions: {
+    port: number
+    strictPort: boolean | undefined
+    host: string | undefined
+    logger: Logger
+  },
+): Promise<number> {
+  let { port } = serverOptions
+
+  const { strictPort, host, logger } = serverOptions
+
+  return new Promise((resolve, reject) => {
+    const onError = (e: Error & { code?: string }) => {
+      if (e.code !== 'EADDRINUSE') {
+        httpServer.removeListener('error', onError)
+        reject(e)
+        return
+      }
+
+      if (strictPort) {
+        httpServer.removeListener('error', onError)
+        reject(new Error(`Port ${port} is already in use`))
+        return
+      }
+
+      logger.info(`Port ${port} is in use, trying another one...`)
+
+      httpServer.listen(++port, host)
+    }
+
+    httpServer.on('error', onError)
+
+    httpServer.listen(port, host, () => {
+      httpServer.removeListener('error', onError)
+      resolve(port)
+    })
+  })
+}
+
+/**
+ * Self-signed certificates are regenerated after this many milliseconds.
+ */
+const CERTIFICATE_MAX_AGE = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * Create an HTTP server, or an HTTPS server if {@link httpsOptions} are provided.
+ *
+ * HTTPS servers use HTTP/2 with HTTP/1 as a fallback,
+ * except when a proxy is used since `http-proxy` doesn't support HTTP/2.
+ */
+export async function resolveHttpServer(
+  { proxy }: CommonServerOptions,
+  app: Connect.Server,
+  httpsOptions?: https.ServerOptions,
+): Promise<HttpServer> {
+  if (!httpsOptions) {
+    const { createServer } = await import('node:http')
+    return createServer(app)
+  }
+
+  // fallback to http1 when proxy is needed.
+  if (proxy) {
+    const { createServer } = await import('node:https')
+    return createServer(httpsOptions, app)
+  }
+
+  const { createSecureServer } = await import('node:http2')
+
+  return createSecureServer(
+    {
+      // Manually increase the session memory to prevent 502 ENHANCE_YOUR_CALM
+      // errors on large numbers of requests
+      maxSessionMemory: 1000,
+      ...httpsOptions,
+      allowHTTP1: true,
+    },
+    app,
+  )
+}
+
+/**
+ * Resolve the `https` server option.
+ *
+ * - `ca`, `cert`, `key` and `pfx` can be file paths or the contents themselves.
+ * - If no certificate and key are provided, a self-signed certificate is generated and cached in {@link cacheDir}.
+ *
+ * @returns The options for the HTTPS server, or undefined if HTTPS is disabled.
+ */
+export async function resolveHttpsConfig(
+  https: CommonServerOptions['https'],
+  cacheDir: string,
+): Promise<https.ServerOptions | undefined> {
+  if (!https) {
+    return undefined
+  }
+
+  const httpsOptions = typeof https === 'object' ? https : {}
+
+  const [ca, cert, key, pfx] = await Promise.all([
+    readFileIfExists(httpsOptions.ca),
+    readFileIfExists(httpsOptions.cert),
+    readFileIfExists(httpsOptions.key),
+    readFileIfExists(httpsOptions.pfx),
+  ])
+
+  const resolvedOptions: https.ServerOptions = { ...httpsOptions, ca, cert, key, pfx }
+
+  if (!resolvedOptions.pfx && (!resolvedOptions.key || !resolvedOptions.cert)) {
+    resolvedOptions.cert = resolvedOptions.key = await getCertificate(cacheDir)
+  }
+
+  return resolvedOptions
+}
+
+/**
+ * Strings are treated as file paths, and their contents are read if they exist.
+ * Otherwise, the value is assumed to be the contents themselves.
+ */
+async function readFileIfExists<T>(value: T | string): Promise<T | string | Buffer> {
+  if (typeof value === 'string') {
+    return fs.readFile(path.resolve(value)).catch(() => value)
+  }
+
+  return value
+}
+
+/**
+ * Get a self-signed certificate for local development.
+ *
+ * The certificate is cached in the {@link cacheDir} and regenerated once it's older than a month.
+ *
+ * @returns The private key and the certificate, concatenated in PEM format.
+ */
+async function getCertificate(cacheDir: string): Promise<string> {
+  const cachePath = path.join(cacheDir, '_cert.pem')
+
+  try {
+    const [stat, content] = await Promise.all([fs.stat(cachePath), fs.readFile(cachePath, 'utf8')])
+
+    if (Date.now() - stat.ctime.valueOf() > CERTIFICATE_MAX_AGE) {
+      throw new Error('cache is outdated.')
+    }
+
+    return content
+  } catch {
+    const content = createCertificate()
+
+    await fs.mkdir(cacheDir, { recursive: true })
+    await fs.writeFile(cachePath, content)
+
+    return content
+  }
+}
+
+/**
+ * Generate a self-signed certificate that is valid for localhost.
+ */
+function createCertificate(): string {
+  const attributes = [{ name: 'commonName', value: 'villv' }]
+
+  const pems = generate(attributes, {
+    days: 30,
+    keySize: 2048,
+    algorithm: 'sha256',
+    extensions: [
+      { name: 'basicConstraints', cA: true },
+      {
+        name: 'keyUsage',
+        keyCertSign: true,
+        digitalSignature: true,
+        nonRepudiation: true,
+        keyEncipherment: true,
+        dataEncipherment: true,
+      },
+      { name: 'extKeyUsage', serverAuth: true, clientAuth: true },
+      {
+        name: 'subjectAltName',
+        altNames: [
+          { type: 2, value: 'localhost' },
+          { type: 2, value: 'localhost.localdomain' },
+          { type: 2, value: 'lvh.me' },
+          { type: 2, value: '*.lvh.me' },
+          { type: 2, value: '[::1]' },
+          { type: 7, ip: '127.0.0.1' },
+          { type: 7, ip: 'fe80::1' },
+        ],
+      },
+    ],
+  })
+
+  return pems.private + pems.cert
+}
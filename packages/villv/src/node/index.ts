@@ -0,0 +1,17 @@
+export { build } from './build.js'
+export {
+  loadConfigFromFile,
+  resolveConfig,
+  type ConfigEnv,
+  type InlineConfig,
+  type PluginOption,
+  type ResolvedConfig,
+  type UserConfig,
+  type UserConfigExport,
+} from './config.js'
+export { VERSION as version } from './constants.js'
+export { createLogger, type Logger } from './logger.js'
+export type { Plugin } from './plugin.js'
+export { preview, type PreviewServer } from './preview.js'
+export { createServer, type DevelopmentServer, type ServerOptions } from './server/index.js'
+export { mergeConfig } from './utils.js'
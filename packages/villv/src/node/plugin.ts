@@ -7,6 +7,12 @@
 import type * as Rollup from 'rollup'
 
 import type { UserConfig, ConfigEnv, ResolvedConfig, Command } from './config.js'
+import type { IndexHtmlTransform } from './plugins/html.js'
+import type { PreviewServerForHook } from './preview.js'
+import type { HmrContext } from './server/hmr.js'
+import type { DevelopmentServer } from './server/index.js'
+import type { ModuleNode } from './server/moduleGraph.js'
+import type { FilterPattern } from './utils.js'
 
 /**
  * Vite plugins extend Rollup's plugin API with some additional Vite-specific options.
@@ -85,40 +91,180 @@ export interface Plugin extends Rollup.Plugin {
    * This hook will be called __before__ internal middlewares are applied.
    * A hook can return a `post` hook that will be called __after__ the internal middlewares
    * are applied. Hooks can be async functions and will be called in order.
+   */
+  configureServer?: Rollup.ObjectHook<ServerHook>
+
+  /**
+   * Configure the preview server.
    *
-   * TODO
+   * This hook receives the {@link PreviewServerForHook} instance.
+   * This can also be used to store a reference to the server for use in other hooks.
+   *
+   * The hooks are called __before__ other middlewares are applied.
+   * A hook can return a `post` hook that will be called __after__ the other middlewares
+   * are applied. Hooks can be async functions and will be called in order.
    */
-  configureServer?: Rollup.ObjectHook<unknown>
+  configurePreviewServer?: Rollup.ObjectHook<PreviewServerHook>
 
   /**
-   * TODO
+   * Transform `index.html`.
+   *
+   * The hook receives the HTML string and a context with the path and filename.
+   * It can return a new HTML string, an array of tag descriptors to inject,
+   * or both via `{ html, tags }`.
+   *
+   * By default, the hook is applied after the HTML has been processed.
+   * Set `order: 'pre'` to apply it before, or `order: 'post'` to apply it after all other hooks.
    */
-  configurePreviewServer?: Rollup.ObjectHook<unknown>
+  transformIndexHtml?: IndexHtmlTransform
 
   /**
-   * TODO
+   * Perform custom handling of HMR updates.
+   *
+   * The handler receives a context object with the following properties:
+   *
+   * - `file`: the changed file.
+   * - `timestamp`: the time of the change.
+   * - `modules`: the modules affected by the change, i.e. multiple modules may map to one file.
+   * - `read`: an async function that returns the file's contents.
+   * - `server`: the development server.
+   *
+   * The hook can choose to:
+   *
+   * - Filter and narrow down the affected modules, so that the HMR is more accurate.
+   * - Return an empty array and perform complete custom HMR handling
+   *   by sending custom events to the client via `server.ws.send`.
    */
-  transformIndexHtml?: Rollup.ObjectHook<unknown>
+  handleHotUpdate?: Rollup.ObjectHook<
+    (this: void, ctx: HmrContext) => Array<ModuleNode> | void | Promise<Array<ModuleNode> | void>
+  >
 
   /**
-   * TODO
+   * Resolve an import specifier to a module ID.
+   *
+   * Set `filter.id` on the hook object to only call the hook for matching specifiers.
    */
-  handleHotUpdate?: Rollup.ObjectHook<unknown>
+  resolveId?: Rollup.ObjectHook<
+    (
+      this: Rollup.PluginContext,
+      source: string,
+      importer: string | undefined,
+      options: {
+        assertions: Record<string, string>
+        custom?: Rollup.CustomPluginOptions
+        ssr?: boolean
+        scan?: boolean
+        isEntry: boolean
+      },
+    ) => Promise<Rollup.ResolveIdResult> | Rollup.ResolveIdResult,
+    HookFilterOptions
+  >
 
   /**
-   * TODO
+   * Load the code of a module.
+   *
+   * Set `filter.id` on the hook object to only call the hook for matching module IDs.
    */
-  resolveId?: Rollup.ObjectHook<unknown>
+  load?: Rollup.ObjectHook<
+    (
+      this: Rollup.PluginContext,
+      id: string,
+      options?: { ssr?: boolean },
+    ) => Promise<Rollup.LoadResult> | Rollup.LoadResult,
+    HookFilterOptions
+  >
 
   /**
-   * TODO
+   * Transform the code of a module.
+   *
+   * During development, the results are cached under `cacheDir` and reused after a restart
+   * as long as the module's code, the plugins and the config are unchanged.
+   * Set the plugin's `cacheKey`, e.g. to a hash of its options, if the result also depends on them,
+   * or `cache: false` on the hook object if it depends on anything else.
+   * Results of calls that emit files, add watch files or warn aren't cached,
+   * since those side effects wouldn't happen again when the cached result is used.
+   *
+   * Set `filter.id` or `filter.code` on the hook object to only call the hook for matching modules.
+   */
+  transform?: Rollup.ObjectHook<
+    (
+      this: Rollup.TransformPluginContext,
+      code: string,
+      id: string,
+      options?: { ssr?: boolean },
+    ) => Promise<Rollup.TransformResult> | Rollup.TransformResult,
+    TransformHookOptions
+  >
+}
+
+/**
+ * Filters that decide whether a hook is called for a module.
+ *
+ * Modules that don't match are skipped without calling the hook.
+ */
+export interface HookFilter {
+  /**
+   * Patterns for the module ID, or for the import specifier in `resolveId`.
+   * The hook is called if any of them matches.
+   *
+   * Relative glob patterns are resolved against `root`, e.g. `src/**`.
+   * Glob patterns never match virtual modules, i.e. IDs that contain `\0`,
+   * while regular expressions are tested against the ID as is, e.g. `/^\0virtual:/`.
+   */
+  id?: FilterPattern
+}
+
+/**
+ * Filters that decide whether the `transform` hook is called for a module.
+ */
+export interface TransformHookFilter extends HookFilter {
+  /**
+   * Strings that the code must include, or regular expressions that it must match.
+   * The hook is called if any of them matches.
    */
-  load?: Rollup.ObjectHook<unknown>
+  code?: FilterPattern
+}
 
+/**
+ * Additional options for the `resolveId` and `load` hook objects.
+ */
+export interface HookFilterOptions {
   /**
-   * TODO
+   * Only call the hook for matching modules.
    */
-  transform?: Rollup.ObjectHook<unknown>
+  filter?: HookFilter
+}
+
+/**
+ * Additional options for the `transform` hook object.
+ */
+export interface TransformHookOptions {
+  /**
+   * Only call the hook for matching modules.
+   */
+  filter?: TransformHookFilter
+
+  /**
+   * Whether the results of the hook can be cached.
+   *
+   * @default true
+   */
+  cache?: boolean
 }
 
 export type PluginOrder = 'pre' | 'post'
+
+/**
+ * A hook that's called after the internal middlewares are applied.
+ */
+export type PostHook = () => void
+
+export type ServerHook = (
+  this: void,
+  server: DevelopmentServer,
+) => PostHook | void | Promise<PostHook | void>
+
+export type PreviewServerHook = (
+  this: void,
+  server: PreviewServerForHook,
+) => PostHook | void | Promise<PostHook | void>
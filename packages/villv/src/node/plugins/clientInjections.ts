@@ -0,0 +1,134 @@
+import path from 'node:path'
+
+import type { ResolvedConfig } from '../config.js'
+import {
+  CLIENT_ENTRY,
+  CLIENT_PUBLIC_PATH,
+  DEFAULT_DEV_PORT,
+  DEFAULT_HMR_PORT,
+  ENV_ENTRY,
+  ENV_PUBLIC_PATH,
+} from '../constants.js'
+import type { Plugin } from '../plugin.js'
+import { cleanUrl, normalizePath, resolveHostname } from '../utils.js'
+
+const normalizedClientEntry = normalizePath(CLIENT_ENTRY)
+
+const normalizedEnvEntry = normalizePath(ENV_ENTRY)
+
+/**
+ * Serve the special `/@vite/client` and `/@vite/env` modules from this package's built client,
+ * and replace the values that they expect to be defined, e.g. `__HMR_PORT__`, with the ones from the config.
+ */
+export function clientInjectionsPlugin(config: ResolvedConfig): Plugin {
+  const publicPathToEntry = new Map([
+    [CLIENT_PUBLIC_PATH, normalizedClientEntry],
+    [ENV_PUBLIC_PATH, normalizedEnvEntry],
+  ])
+
+  let injectConfigValues = (code: string) => code
+
+  return {
+    name: 'vite:client-inject',
+
+    async buildStart() {
+      const resolvedServerHostname = (await resolveHostname(config.server.host)).name
+
+      const resolvedServerPort = config.server.port ?? DEFAULT_DEV_PORT
+
+      const devBase = config.base
+
+      const serverHost = `${resolvedServerHostname}:${resolvedServerPort}${devBase}`
+
+      const hmrConfig = typeof config.server.hmr === 'object' ? config.server.hmr : undefined
+
+      const host = hmrConfig?.host || null
+
+      const protocol = hmrConfig?.protocol || null
+
+      const timeout = hmrConfig?.timeout || 30000
+
+      const overlay = hmrConfig?.overlay !== false
+
+      const isHmrServerSpecified = !!hmrConfig?.server
+
+      // hmr.clientPort -> hmr.port
+      // -> (24678 if middleware mode and HMR server is not specified) -> new URL(import.meta.url).port
+      let port = hmrConfig?.clientPort || hmrConfig?.port || null
+
+      if (config.server.middlewareMode && !isHmrServerSpecified) {
+        port ||= DEFAULT_HMR_PORT
+      }
+
+      const directTarget = `${hmrConfig?.host || resolvedServerHostname}:${
+        hmrConfig?.port || resolvedServerPort
+      }${devBase}`
+
+      const hmrBase = hmrConfig?.path ? path.posix.join(devBase, hmrConfig.path) : devBase
+
+      const replacements: Record<string, unknown> = {
+        __MODE__: config.mode,
+        __BASE__: devBase,
+        __SERVER_HOST__: serverHost,
+        __HMR_PROTOCOL__: protocol,
+        __HMR_HOSTNAME__: host,
+        __HMR_PORT__: port,
+        __HMR_DIRECT_TARGET__: directTarget,
+        __HMR_BASE__: hmrBase,
+        __HMR_TIMEOUT__: timeout,
+        __HMR_ENABLE_OVERLAY__: overlay,
+      }
+
+      const serializedDefines = serializeDefine(config.define ?? {})
+
+      injectConfigValues = (code) => {
+        return code
+          .replace(/\b__[A-Z_]+__\b/g, (name) =>
+            name in replacements ? JSON.stringify(replacements[name]) : name,
+          )
+          .replace('__DEFINES__', () => serializedDefines)
+      }
+    },
+
+    resolveId(id) {
+      const url = cleanUrl(id)
+
+      // The client script is injected into HTML with the base, e.g. `/base/@vite/client`.
+      const publicPath = url.startsWith(config.base) ? `/${url.slice(config.base.length)}` : url
+
+      return publicPathToEntry.get(publicPath)
+    },
+
+    transform: {
+      // The injected values depend on the server options, which aren't part of the cache key.
+      cache: false,
+      handler(code, id) {
+        if (id === normalizedClientEntry || id === normalizedEnvEntry) {
+          return injectConfigValues(code)
+        }
+
+        return
+      },
+    },
+  }
+}
+
+/**
+ * Serialize the `define` option into an object literal.
+ *
+ * Like ESBuild's define API, string values are inserted as expressions.
+ */
+function serializeDefine(define: Record<string, unknown>): string {
+  const entries = Object.entries(define).map(
+    ([key, value]) =>
+      `${JSON.stringify(key)}: ${
+        typeof value === 'undefined'
+          ? 'undefined'
+          : typeof value === 'string'
+          ? value
+          : JSON.stringify(value)
+      }`,
+  )
+
+  return `{${entries.join(', ')}}`
+}
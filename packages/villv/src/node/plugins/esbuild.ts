@@ -0,0 +1,88 @@
+import { transform, type TransformOptions } from 'esbuild'
+import type { NormalizedOutputOptions, RenderedChunk } from 'rollup'
+
+import type { ResolvedConfig } from '../config.js'
+import type { Plugin } from '../plugin.js'
+
+/**
+ * Transpile and minify the output chunks with esbuild, according to `build.target` and `build.minify`.
+ */
+export function buildEsbuildPlugin(config: ResolvedConfig): Plugin {
+  return {
+    name: 'vite:esbuild-transpile',
+
+    async renderChunk(code: string, chunk: RenderedChunk, opts: NormalizedOutputOptions) {
+      const options = resolveEsbuildTranspileOptions(config, opts.format)
+
+      if (!options) {
+        return null
+      }
+
+      const result = await transform(code, { ...options, sourcefile: chunk.fileName })
+
+      if (result.warnings.length) {
+        result.warnings.forEach((warning) => {
+          config.logger.warn(`[vite:esbuild-transpile] ${chunk.fileName}: ${warning.text}`)
+        })
+      }
+
+      return { code: result.code, map: result.map || null }
+    },
+  }
+}
+
+/**
+ * @returns The esbuild options to transform a chunk with, or null if it doesn't need to be transformed.
+ */
+export function resolveEsbuildTranspileOptions(
+  config: ResolvedConfig,
+  format: NormalizedOutputOptions['format'],
+): TransformOptions | null {
+  const target = config.build.target
+
+  const minify = config.build.minify === 'esbuild'
+
+  if ((!target || target === 'esnext') && !minify) {
+    return null
+  }
+
+  // Do not minify whitespace for ES lib output since that would remove pure annotations.
+  const isEsLibBuild = config.build.library && format === 'es'
+
+  const options: TransformOptions = {
+    loader: 'js',
+    target: target || undefined,
+    charset: 'utf8',
+    sourcemap: !!config.build.sourcemap,
+    // esbuild will only transform module syntax if the format is specified.
+    format: format === 'es' ? 'esm' : format === 'cjs' ? 'cjs' : undefined,
+    supported: {
+      // Rollup outputs dynamic imports as is, so esbuild doesn't need to handle them.
+      'dynamic-import': true,
+    },
+  }
+
+  if (!minify) {
+    return { ...options, minify: false, treeShaking: false }
+  }
+
+  // Don't minify top-level identifiers in IIFE and UMD bundles, since they may be exposed as globals.
+  if (format === 'iife' || format === 'umd') {
+    return {
+      ...options,
+      minifyWhitespace: !isEsLibBuild,
+      minifySyntax: true,
+      minifyIdentifiers: true,
+      treeShaking: false,
+      format: undefined,
+    }
+  }
+
+  return {
+    ...options,
+    minifyWhitespace: !isEsLibBuild,
+    minifySyntax: true,
+    minifyIdentifiers: true,
+    treeShaking: true,
+  }
+}
@@ -0,0 +1,556 @@
+import path from 'node:path'
+
+import MagicString from 'magic-string'
+import type { OutputBundle, OutputChunk } from 'rollup'
+
+import type { ResolvedConfig } from '../config.js'
+import type { Plugin } from '../plugin.js'
+import type { DevelopmentServer } from '../server/index.js'
+import { isDataUrl, isExternalUrl, normalizePath } from '../utils.js'
+
+/**
+ * Describes an HTML tag that should be injected into `index.html`.
+ */
+export interface HtmlTagDescriptor {
+  tag: string
+
+  attrs?: Record<string, string | boolean | undefined>
+
+  children?: string | HtmlTagDescriptor[]
+
+  /**
+   * Where to inject the tag.
+   *
+   * @default 'head-prepend'
+   */
+  injectTo?: 'head' | 'body' | 'head-prepend' | 'body-prepend'
+}
+
+/**
+ * A transform can return the new HTML, tags to inject, or both.
+ */
+export type IndexHtmlTransformResult =
+  | string
+  | HtmlTagDescriptor[]
+  | {
+      html: string
+      tags: HtmlTagDescriptor[]
+    }
+
+export interface IndexHtmlTransformContext {
+  /**
+   * Public path when served.
+   */
+  path: string
+
+  /**
+   * Filename on disk.
+   */
+  filename: string
+
+  /**
+   * Only available during development.
+   */
+  server?: DevelopmentServer
+
+  /**
+   * Only available during build.
+   */
+  bundle?: OutputBundle
+
+  /**
+   * Only available during build.
+   */
+  chunk?: OutputChunk
+
+  /**
+   * The original request URL during development.
+   */
+  originalUrl?: string
+}
+
+export type IndexHtmlTransformHook = (
+  this: void,
+  html: string,
+  ctx: IndexHtmlTransformContext,
+) => IndexHtmlTransformResult | void | Promise<IndexHtmlTransformResult | void>
+
+/**
+ * An HTML transform can be a function, or an object that specifies when it should be applied.
+ *
+ * - `pre` transforms are applied before any other processing, i.e. on the original HTML.
+ * - Normal transforms are applied after the internal transforms.
+ * - `post` transforms are applied last.
+ */
+export type IndexHtmlTransform =
+  | IndexHtmlTransformHook
+  | {
+      order?: 'pre' | 'post' | null
+
+      /**
+       * @deprecated Renamed to `order`.
+       */
+      enforce?: 'pre' | 'post'
+
+      /**
+       * @deprecated Renamed to `handler`.
+       */
+      transform?: IndexHtmlTransformHook
+
+      handler?: IndexHtmlTransformHook
+    }
+
+/**
+ * Split the `transformIndexHtml` hooks of the plugins by when they should be applied.
+ *
+ * @returns The `pre`, normal, and `post` hooks.
+ */
+export function resolveHtmlTransforms(
+  plugins: readonly Plugin[],
+): [IndexHtmlTransformHook[], IndexHtmlTransformHook[], IndexHtmlTransformHook[]] {
+  const preHooks: IndexHtmlTransformHook[] = []
+
+  const normalHooks: IndexHtmlTransformHook[] = []
+
+  const postHooks: IndexHtmlTransformHook[] = []
+
+  for (const plugin of plugins) {
+    const hook = plugin.transformIndexHtml
+
+    if (!hook) {
+      continue
+    }
+
+    if (typeof hook === 'function') {
+      normalHooks.push(hook)
+      continue
+    }
+
+    // `enforce: 'post'` maps to a normal hook to preserve its old behavior.
+    const order = hook.order ?? (hook.enforce === 'pre' ? 'pre' : undefined)
+
+    const handler = hook.handler ?? hook.transform
+
+    if (!handler) {
+      continue
+    }
+
+    if (order === 'pre') {
+      preHooks.push(handler)
+    } else if (order === 'post') {
+      postHooks.push(handler)
+    } else {
+      normalHooks.push(handler)
+    }
+  }
+
+  return [preHooks, normalHooks, postHooks]
+}
+
+/**
+ * Run the HTML through every hook in order, injecting any tags they return.
+ */
+export async function applyHtmlTransforms(
+  html: string,
+  hooks: IndexHtmlTransformHook[],
+  ctx: IndexHtmlTransformContext,
+): Promise<string> {
+  for (const hook of hooks) {
+    const result = await hook(html, ctx)
+
+    if (!result) {
+      continue
+    }
+
+    if (typeof result === 'string') {
+      html = result
+      continue
+    }
+
+    let tags: HtmlTagDescriptor[]
+
+    if (Array.isArray(result)) {
+      tags = result
+    } else {
+      html = result.html || html
+      tags = result.tags
+    }
+
+    const headTags: HtmlTagDescriptor[] = []
+
+    const headPrependTags: HtmlTagDescriptor[] = []
+
+    const bodyTags: HtmlTagDescriptor[] = []
+
+    const bodyPrependTags: HtmlTagDescriptor[] = []
+
+    for (const tag of tags) {
+      if (tag.injectTo === 'body') {
+        bodyTags.push(tag)
+      } else if (tag.injectTo === 'body-prepend') {
+        bodyPrependTags.push(tag)
+      } else if (tag.injectTo === 'head') {
+        headTags.push(tag)
+      } else {
+        headPrependTags.push(tag)
+      }
+    }
+
+    html = injectToHead(html, headPrependTags, true)
+    html = injectToHead(html, headTags)
+    html = injectToBody(html, bodyPrependTags, true)
+    html = injectToBody(html, bodyTags)
+  }
+
+  return html
+}
+
+const moduleScriptRegex = /([ \t]*)<script\b([^>]*)>([\s\S]*?)<\/script>[ \t]*\n?/gi
+
+const typeModuleRegex = /\btype\s*=\s*(?:"module"|'module'|module\b)/i
+
+const srcRegex = /\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i
+
+const asyncRegex = /\basync\b/i
+
+const importRegex = /\bimport\s*("[^"]*[^\\]"|'[^']*[^\\]');*/g
+
+const commentRegex = /\/\*[\s\S]*?\*\/|\/\/.*$/gm
+
+/**
+ * Whether the code only consists of side-effect imports, which match `<script type=module>` semantics.
+ *
+ * The regexes may remove too little in some exotic cases, but false negatives are alright.
+ */
+function isEntirelyImport(code: string): boolean {
+  return !code.replace(importRegex, '').replace(commentRegex, '').trim().length
+}
+
+/**
+ * Bundle HTML entry points.
+ *
+ * Module scripts are extracted from the HTML and bundled as the entry's JS chunk,
+ * then the chunk is injected back into the HTML, which is emitted as an asset.
+ */
+export function buildHtmlPlugin(config: ResolvedConfig): Plugin {
+  const [preHooks, normalHooks, postHooks] = resolveHtmlTransforms(config.plugins)
+
+  /**
+   * The HTML of each entry with its module scripts removed.
+   */
+  const processedHtml = new Map<string, string>()
+
+  /**
+   * Whether every module script of an entry was async.
+   */
+  const isAsyncScript = new Map<string, boolean>()
+
+  return {
+    name: 'vite:build-html',
+
+    async transform(html: string, id: string) {
+      if (!id.endsWith('.html')) {
+        return
+      }
+
+      const relativeUrlPath = path.posix.relative(config.root, normalizePath(id))
+
+      html = await applyHtmlTransforms(html, preHooks, {
+        path: `/${relativeUrlPath}`,
+        filename: id,
+      })
+
+      const s = new MagicString(html)
+
+      let js = ''
+
+      let everyScriptIsAsync = true
+
+      for (const match of html.matchAll(moduleScriptRegex)) {
+        const [full, , attrs = '', contents = ''] = match
+
+        if (!typeModuleRegex.test(attrs)) {
+          continue
+        }
+
+        const srcMatch = attrs.match(srcRegex)
+
+        const url = srcMatch?.[1] ?? srcMatch?.[2] ?? srcMatch?.[3]
+
+        if (url) {
+          if (url[0] === '#' || isExternalUrl(url) || isDataUrl(url)) {
+            continue
+          }
+
+          js += `\nimport ${JSON.stringify(url)}`
+        } else {
+          js += `\n${contents}`
+        }
+
+        everyScriptIsAsync &&= asyncRegex.test(attrs)
+
+        const start = match.index ?? 0
+
+        s.remove(start, start + full.length)
+      }
+
+      processedHtml.set(id, s.toString())
+
+      isAsyncScript.set(id, everyScriptIsAsync && js.length > 0)
+
+      // Force rollup to keep this module from being shared between other entry points.
+      // If the resulting chunk is empty, it will be removed in generateBundle.
+      return { code: js, moduleSideEffects: 'no-treeshake' }
+    },
+
+    async generateBundle(options, bundle) {
+      const inlineEntryChunks = new Set<string>()
+
+      const getImportedChunks = (chunk: OutputChunk, seen = new Set<string>()) => {
+        const chunks: OutputChunk[] = []
+
+        chunk.imports.forEach((file) => {
+          const importee = bundle[file]
+
+          if (importee?.type === 'chunk' && !seen.has(file)) {
+            seen.add(file)
+
+            // post-order traversal
+            chunks.push(...getImportedChunks(importee, seen))
+            chunks.push(importee)
+          }
+        })
+
+        return chunks
+      }
+
+      for (const [id, html] of processedHtml) {
+        const relativeUrlPath = path.posix.relative(config.root, normalizePath(id))
+
+        const toOutputPath = (fileName: string) => config.base + fileName
+
+        const isAsync = isAsyncScript.get(id)
+
+        const toScriptTag = (chunk: OutputChunk): HtmlTagDescriptor => ({
+          tag: 'script',
+          attrs: {
+            ...(isAsync ? { async: true } : {}),
+            type: 'module',
+            crossorigin: true,
+            src: toOutputPath(chunk.fileName),
+          },
+        })
+
+        const chunk = Object.values(bundle).find(
+          (chunk): chunk is OutputChunk =>
+            chunk.type === 'chunk' && chunk.isEntry && chunk.facadeModuleId === id,
+        )
+
+        let result = html
+
+        if (chunk) {
+          // An entry chunk that only imports other chunks can be inlined into the HTML.
+          const canInlineEntry = options.format === 'es' && isEntirelyImport(chunk.code)
+
+          const imports = getImportedChunks(chunk)
+
+          const assetTags = canInlineEntry
+            ? imports.map(toScriptTag)
+            : [
+                toScriptTag(chunk),
+                ...imports.map(
+                  (importee): HtmlTagDescriptor => ({
+                    tag: 'link',
+                    attrs: {
+                      rel: 'modulepreload',
+                      crossorigin: true,
+                      href: toOutputPath(importee.fileName),
+                    },
+                  }),
+                ),
+              ]
+
+          result = injectToHead(result, assetTags)
+
+          if (canInlineEntry) {
+            inlineEntryChunks.add(chunk.fileName)
+          }
+        }
+
+        result = await applyHtmlTransforms(result, [...normalHooks, ...postHooks], {
+          path: `/${relativeUrlPath}`,
+          filename: id,
+          bundle,
+          chunk,
+        })
+
+        this.emitFile({
+          type: 'asset',
+          fileName: normalizePath(path.relative(config.root, id)),
+          source: result,
+        })
+      }
+
+      // All imports of the entry have been inlined into the HTML, so don't output it.
+      for (const fileName of inlineEntryChunks) {
+        delete bundle[fileName]
+      }
+    },
+  }
+}
+
+const headInjectRegex = /([ \t]*)<\/head>/i
+
+const headPrependInjectRegex = /([ \t]*)<head[^>]*>/i
+
+const htmlInjectRegex = /<\/html>/i
+
+const htmlPrependInjectRegex = /([ \t]*)<html[^>]*>/i
+
+const bodyInjectRegex = /([ \t]*)<\/body>/i
+
+const bodyPrependInjectRegex = /([ \t]*)<body[^>]*>/i
+
+const doctypePrependInjectRegex = /<!doctype html>/i
+
+/**
+ * Inject tags at the start or end of the `<head>`.
+ */
+function injectToHead(html: string, tags: HtmlTagDescriptor[], prepend = false): string {
+  if (tags.length === 0) {
+    return html
+  }
+
+  if (prepend) {
+    // inject as the first element of head
+    if (headPrependInjectRegex.test(html)) {
+      return html.replace(
+        headPrependInjectRegex,
+        (match, p1: string) => `${match}\n${serializeTags(tags, incrementIndent(p1))}`,
+      )
+    }
+  } else {
+    // inject before head close, respecting the indentation of the head tag
+    if (headInjectRegex.test(html)) {
+      return html.replace(
+        headInjectRegex,
+        (match, p1: string) => `${serializeTags(tags, incrementIndent(p1))}${match}`,
+      )
+    }
+
+    // try to inject before the body tag
+    if (bodyPrependInjectRegex.test(html)) {
+      return html.replace(
+        bodyPrependInjectRegex,
+        (match, p1: string) => `${serializeTags(tags, p1)}\n${match}`,
+      )
+    }
+  }
+
+  // If no head tag is present, the tags are prepended for both prepend and append.
+  return prependInjectFallback(html, tags)
+}
+
+/**
+ * Inject tags at the start or end of the `<body>`.
+ */
+function injectToBody(html: string, tags: HtmlTagDescriptor[], prepend = false): string {
+  if (tags.length === 0) {
+    return html
+  }
+
+  if (prepend) {
+    // inject after body open
+    if (bodyPrependInjectRegex.test(html)) {
+      return html.replace(
+        bodyPrependInjectRegex,
+        (match, p1: string) => `${match}\n${serializeTags(tags, incrementIndent(p1))}`,
+      )
+    }
+
+    // if there is no body tag, inject after head or fallback to prepend in html
+    if (headInjectRegex.test(html)) {
+      return html.replace(
+        headInjectRegex,
+        (match, p1: string) => `${match}\n${serializeTags(tags, p1)}`,
+      )
+    }
+
+    return prependInjectFallback(html, tags)
+  }
+
+  // inject before body close
+  if (bodyInjectRegex.test(html)) {
+    return html.replace(
+      bodyInjectRegex,
+      (match, p1: string) => `${serializeTags(tags, incrementIndent(p1))}${match}`,
+    )
+  }
+
+  // if no body tag is present, append to the html tag, or at the end of the file
+  if (htmlInjectRegex.test(html)) {
+    return html.replace(htmlInjectRegex, `${serializeTags(tags)}\n$&`)
+  }
+
+  return html + `\n` + serializeTags(tags)
+}
+
+/**
+ * Prepend to the html tag, append after the doctype, or at the start of the document.
+ */
+function prependInjectFallback(html: string, tags: HtmlTagDescriptor[]): string {
+  if (htmlPrependInjectRegex.test(html)) {
+    return html.replace(htmlPrependInjectRegex, `$&\n${serializeTags(tags)}`)
+  }
+
+  if (doctypePrependInjectRegex.test(html)) {
+    return html.replace(doctypePrependInjectRegex, `$&\n${serializeTags(tags)}`)
+  }
+
+  return serializeTags(tags) + html
+}
+
+const unaryTags = new Set(['link', 'meta', 'base'])
+
+function serializeTag({ tag, attrs, children }: HtmlTagDescriptor, indent = ''): string {
+  if (unaryTags.has(tag)) {
+    return `<${tag}${serializeAttrs(attrs)}>`
+  }
+
+  return `<${tag}${serializeAttrs(attrs)}>${serializeTags(
+    children,
+    incrementIndent(indent),
+  )}</${tag}>`
+}
+
+function serializeTags(tags: HtmlTagDescriptor['children'], indent = ''): string {
+  if (typeof tags === 'string') {
+    return tags
+  }
+
+  if (tags?.length) {
+    return tags.map((tag) => `${indent}${serializeTag(tag, indent)}\n`).join('')
+  }
+
+  return ''
+}
+
+function serializeAttrs(attrs: HtmlTagDescriptor['attrs']): string {
+  let result = ''
+
+  for (const key in attrs) {
+    const value = attrs[key]
+
+    if (typeof value === 'boolean') {
+      result += value ? ` ${key}` : ``
+    } else if (value != null) {
+      result += ` ${key}=${JSON.stringify(value)}`
+    }
+  }
+
+  return result
+}
+
+function incrementIndent(indent = ''): string {
+  return `${indent}${indent[0] === '\t' ? '\t' : '  '}`
+}
@@ -8,7 +8,8 @@
 
 import type { ObjectHook } from 'rollup'
 
-import type { Plugin } from '../plugin.js'
+import type { Plugin, TransformHookFilter } from '../plugin.js'
+import { createFilter, type FilterPattern } from '../utils.js'
 
 /**
  * FIXME: this is kinda circular.
@@ -34,7 +35,9 @@ export function getSortedPluginsBy(
     .map(({ plugin }) => plugin)
 
   const normal = pluginHooks
-    .filter(({ hook }) => typeof hook !== 'object')
+    .filter(
+      ({ hook }) => typeof hook !== 'object' || (hook.order !== 'pre' && hook.order !== 'post'),
+    )
     .map(({ plugin }) => plugin)
 
   return [...pre, ...normal, ...post]
@@ -87,3 +90,144 @@ export function createPluginHookUtils(plugins: readonly Plugin[]): PluginHookUti
     getSortedPluginHooks,
   }
 }
+
+type HookFilterFn = (id: string, code?: string) => boolean
+
+/**
+ * Whether a hook should be called for a module, according to the `filter` of its hook object.
+ * Hooks without a filter are called for every module.
+ */
+export type HookFilterMatcher = (
+  hook: object | ((...args: never[]) => unknown),
+  id: string,
+  code?: string,
+) => boolean
+
+/**
+ * Create a {@link HookFilterMatcher} that resolves glob patterns against the project root.
+ */
+export function createHookFilterMatcher(root: string): HookFilterMatcher {
+  // Map from hook object to its compiled filter.
+  const hookFilterCache = new WeakMap<object, HookFilterFn>()
+
+  return (hook, id, code) => {
+    if (typeof hook !== 'object' || !('filter' in hook) || !hook.filter) {
+      return true
+    }
+
+    let filter = hookFilterCache.get(hook)
+
+    if (!filter) {
+      filter = createHookFilter(hook.filter as TransformHookFilter, root)
+      hookFilterCache.set(hook, filter)
+    }
+
+    return filter(id, code)
+  }
+}
+
+/**
+ * Skip the `resolveId`, `load` and `transform` hooks of plugins for modules that don't match
+ * the `filter` of their hook objects, the same way the development server does.
+ *
+ * Rollup calls the hooks regardless of their `filter`, so the handlers are wrapped for the build.
+ */
+export function applyHookFilters(plugins: readonly Plugin[], root: string): Plugin[] {
+  const matchesHookFilter = createHookFilterMatcher(root)
+
+  return plugins.map((plugin) => {
+    const { resolveId, load, transform } = plugin
+
+    const filteredPlugin = { ...plugin }
+
+    if (typeof resolveId === 'object' && resolveId.filter) {
+      filteredPlugin.resolveId = {
+        ...resolveId,
+        handler(source, ...args) {
+          return matchesHookFilter(resolveId, source)
+            ? resolveId.handler.call(this, source, ...args)
+            : null
+        },
+      }
+    }
+
+    if (typeof load === 'object' && load.filter) {
+      filteredPlugin.load = {
+        ...load,
+        handler(id, ...args) {
+          return matchesHookFilter(load, id) ? load.handler.call(this, id, ...args) : null
+        },
+      }
+    }
+
+    if (typeof transform === 'object' && transform.filter) {
+      filteredPlugin.transform = {
+        ...transform,
+        handler(code, id, ...args) {
+          return matchesHookFilter(transform, id, code)
+            ? transform.handler.call(this, code, id, ...args)
+            : null
+        },
+      }
+    }
+
+    return filteredPlugin
+  })
+}
+
+function createHookFilter({ id, code }: TransformHookFilter, root: string): HookFilterFn {
+  const idFilter = id != null ? createIdFilter(id, root) : undefined
+
+  const codePatterns = toPatterns(code)
+
+  return (moduleId, moduleCode) => {
+    if (idFilter && !idFilter(moduleId)) {
+      return false
+    }
+
+    if (codePatterns.length && moduleCode != null) {
+      return codePatterns.some((pattern) =>
+        typeof pattern === 'string'
+          ? moduleCode.includes(pattern)
+          : matchesRegex(pattern, moduleCode),
+      )
+    }
+
+    return true
+  }
+}
+
+/**
+ * Match module IDs the same way in development and build.
+ *
+ * Glob patterns are resolved against the root and matched with `createFilter`,
+ * which never matches IDs that contain `\0`.
+ * Regular expressions are tested against the ID as is, so they can match virtual modules.
+ */
+function createIdFilter(pattern: FilterPattern, root: string): (id: string) => boolean {
+  const patterns = toPatterns(pattern)
+
+  if (!patterns.length) {
+    return () => true
+  }
+
+  const globs = patterns.filter((pattern): pattern is string => typeof pattern === 'string')
+
+  const regexes = patterns.filter((pattern): pattern is RegExp => pattern instanceof RegExp)
+
+  const globFilter = globs.length ? createFilter(globs, null, { resolve: root }) : undefined
+
+  return (id) => regexes.some((regex) => matchesRegex(regex, id)) || !!globFilter?.(id)
+}
+
+/**
+ * Unlike `RegExp#test`, `String#search` ignores the `lastIndex` of global and sticky expressions,
+ * so that a user's expression matches every string the same way.
+ */
+function matchesRegex(regex: RegExp, value: string): boolean {
+  return value.search(regex) !== -1
+}
+
+function toPatterns(pattern: FilterPattern | undefined): (string | RegExp)[] {
+  return typeof pattern === 'string' || pattern instanceof RegExp ? [pattern] : [...(pattern ?? [])]
+}
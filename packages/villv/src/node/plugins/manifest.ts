@@ -0,0 +1,174 @@
+import path from 'node:path'
+
+import type { OutputAsset, OutputChunk } from 'rollup'
+
+import { resolveLibraryFormats } from '../build.js'
+import type { ResolvedConfig } from '../config.js'
+import type { Plugin } from '../plugin.js'
+import { normalizePath } from '../utils.js'
+
+/**
+ * Maps source files, relative to the root, to their build output.
+ */
+export type Manifest = Record<string, ManifestChunk>
+
+export interface ManifestChunk {
+  /**
+   * The source file, relative to the root.
+   */
+  src?: string
+
+  /**
+   * The output file, relative to the output directory.
+   */
+  file: string
+
+  /**
+   * CSS files imported by the chunk.
+   */
+  css?: string[]
+
+  /**
+   * Assets imported by the chunk.
+   */
+  assets?: string[]
+
+  isEntry?: boolean
+
+  isDynamicEntry?: boolean
+
+  /**
+   * Keys of the chunks that are statically imported by this chunk.
+   */
+  imports?: string[]
+
+  /**
+   * Keys of the chunks that are dynamically imported by this chunk.
+   */
+  dynamicImports?: string[]
+}
+
+/**
+ * Emit a manifest of the build output, so that a backend can render links to the hashed files.
+ */
+export function manifestPlugin(config: ResolvedConfig): Plugin {
+  let manifest: Manifest = {}
+
+  let outputCount = 0
+
+  const { library, rollupOptions } = config.build
+
+  // Library builds without an output array have one output per format.
+  const outputLength = Array.isArray(rollupOptions.output)
+    ? rollupOptions.output.length
+    : library
+    ? resolveLibraryFormats(library).length
+    : 1
+
+  return {
+    name: 'vite:manifest',
+
+    buildStart() {
+      manifest = {}
+      outputCount = 0
+    },
+
+    generateBundle(_options, bundle) {
+      function getChunkName(chunk: OutputChunk): string {
+        if (chunk.facadeModuleId) {
+          return normalizePath(path.relative(config.root, chunk.facadeModuleId)).replace(/\0/g, '')
+        }
+
+        return `_` + path.basename(chunk.fileName)
+      }
+
+      function getInternalImports(imports: string[]): string[] {
+        const filteredImports: string[] = []
+
+        for (const file of imports) {
+          const importee = bundle[file]
+
+          if (importee?.type === 'chunk') {
+            filteredImports.push(getChunkName(importee))
+          }
+        }
+
+        return filteredImports
+      }
+
+      function createChunk(chunk: OutputChunk): ManifestChunk {
+        const manifestChunk: ManifestChunk = {
+          file: chunk.fileName,
+        }
+
+        if (chunk.facadeModuleId) {
+          manifestChunk.src = getChunkName(chunk)
+        }
+
+        if (chunk.isEntry) {
+          manifestChunk.isEntry = true
+        }
+
+        if (chunk.isDynamicEntry) {
+          manifestChunk.isDynamicEntry = true
+        }
+
+        if (chunk.imports.length) {
+          const internalImports = getInternalImports(chunk.imports)
+
+          if (internalImports.length > 0) {
+            manifestChunk.imports = internalImports
+          }
+        }
+
+        if (chunk.dynamicImports.length) {
+          const internalImports = getInternalImports(chunk.dynamicImports)
+
+          if (internalImports.length > 0) {
+            manifestChunk.dynamicImports = internalImports
+          }
+        }
+
+        if (chunk.viteMetadata?.importedCss.size) {
+          manifestChunk.css = [...chunk.viteMetadata.importedCss]
+        }
+
+        if (chunk.viteMetadata?.importedAssets.size) {
+          manifestChunk.assets = [...chunk.viteMetadata.importedAssets]
+        }
+
+        return manifestChunk
+      }
+
+      function createAsset(asset: OutputAsset, src: string): ManifestChunk {
+        return { file: asset.fileName, src }
+      }
+
+      // The entries of every output are merged into one manifest.
+      // If several outputs build the same source, e.g. a library in multiple formats,
+      // the entry of the first output is kept.
+      for (const file in bundle) {
+        const chunk = bundle[file]
+
+        if (chunk?.type === 'chunk') {
+          manifest[getChunkName(chunk)] ??= createChunk(chunk)
+        } else if (chunk?.type === 'asset' && typeof chunk.name === 'string') {
+          // Add every unique asset to the manifest, keyed by its original name.
+          manifest[chunk.name] ??= createAsset(chunk, chunk.name)
+        }
+      }
+
+      outputCount++
+
+      // Only emit the manifest once every output has been generated.
+      if (outputCount >= outputLength) {
+        this.emitFile({
+          fileName:
+            typeof config.build.manifest === 'string' ? config.build.manifest : 'manifest.json',
+          type: 'asset',
+          source: JSON.stringify(manifest, null, 2),
+        })
+      }
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import type { RenderedChunk } from 'rollup'
+
+import type { Plugin } from '../plugin.js'
+
+/**
+ * The CSS and assets that a chunk depends on.
+ */
+export interface ChunkMetadata {
+  importedAssets: Set<string>
+  importedCss: Set<string>
+}
+
+declare module 'rollup' {
+  interface RenderedChunk {
+    viteMetadata?: ChunkMetadata
+  }
+}
+
+/**
+ * Prepare each rendered chunk to store its imported CSS and assets.
+ *
+ * Files referenced by the chunk, i.e. via `import.meta.ROLLUP_FILE_URL_*`, are recorded by default.
+ * Other plugins can add to the metadata in their own `renderChunk` hooks.
+ */
+export function metadataPlugin(): Plugin {
+  return {
+    name: 'vite:build-metadata',
+
+    async renderChunk(_code: string, chunk: RenderedChunk) {
+      const metadata: ChunkMetadata = {
+        importedAssets: new Set(),
+        importedCss: new Set(),
+      }
+
+      chunk.referencedFiles.forEach((file) => {
+        if (file.endsWith('.css')) {
+          metadata.importedCss.add(file)
+        } else {
+          metadata.importedAssets.add(file)
+        }
+      })
+
+      chunk.viteMetadata = metadata
+
+      return null
+    },
+  }
+}
@@ -0,0 +1,34 @@
+import type { NormalizedOutputOptions, RenderedChunk } from 'rollup'
+import { minify } from 'terser'
+
+import type { ResolvedConfig } from '../config.js'
+import type { Plugin } from '../plugin.js'
+
+/**
+ * Minify the output chunks with terser when `build.minify` is `'terser'`.
+ */
+export function terserPlugin(config: ResolvedConfig): Plugin {
+  return {
+    name: 'vite:terser',
+
+    async renderChunk(code: string, _chunk: RenderedChunk, outputOptions: NormalizedOutputOptions) {
+      // Don't minify es lib output since that would remove pure annotations and break tree-shaking.
+      if (config.build.library && outputOptions.format === 'es') {
+        return null
+      }
+
+      const result = await minify(code, {
+        safari10: true,
+        ...config.build.terserOptions,
+        sourceMap: !!outputOptions.sourcemap,
+        module: outputOptions.format.startsWith('es'),
+        toplevel: outputOptions.format === 'cjs',
+      })
+
+      return {
+        code: result.code ?? code,
+        map: typeof result.map === 'string' ? result.map : null,
+      }
+    },
+  }
+}
@@ -1,20 +1,200 @@
-import type { CommonServerOptions } from './http'
-import type { ResolvedServerOptions } from './server'
+import path from 'node:path'
+
+import connect from 'connect'
+import corsMiddleware from 'cors'
+import sirv from 'sirv'
+
+import { resolveConfig, type InlineConfig, type ResolvedConfig } from './config.js'
+import { DEFAULT_PREVIEW_PORT } from './constants.js'
+import {
+  httpServerStart,
+  resolveHttpServer,
+  resolveHttpsConfig,
+  type CommonServerOptions,
+  type HttpServer,
+} from './http.js'
+import { printServerUrls, type ResolvedServerUrls } from './logger.js'
+import type { PostHook } from './plugin.js'
+import type { ResolvedServerOptions } from './server/index.js'
+import { proxyMiddleware } from './server/middlewares/proxy.js'
+import { openBrowser } from './server/openBrowser.js'
+import { resolveHostname, resolveServerUrls } from './utils.js'
 
 export type PreviewOptions = CommonServerOptions
 
 export type ResolvedPreviewOptions = PreviewOptions
 
+/**
+ * The preview server, as received by the `configurePreviewServer` plugin hook.
+ */
+export interface PreviewServerForHook {
+  /**
+   * The resolved config object.
+   */
+  config: ResolvedConfig
+
+  /**
+   * A connect app instance.
+   *
+   * - Can be used to attach custom middlewares to the preview server.
+   * - Can also be used as the handler function of a custom http server or as a middleware
+   *   in any connect-style Node.js frameworks.
+   */
+  middlewares: connect.Server
+
+  /**
+   * Native Node.js http server instance.
+   */
+  httpServer: HttpServer
+
+  /**
+   * The resolved URLs that villv prints on the CLI.
+   */
+  resolvedUrls: ResolvedServerUrls | null
+
+  /**
+   * Print server URLs.
+   */
+  printUrls(): void
+}
+
+/**
+ * A running preview server.
+ */
+export interface PreviewServer extends PreviewServerForHook {
+  /**
+   * The resolved URLs that villv prints on the CLI.
+   */
+  resolvedUrls: ResolvedServerUrls
+}
+
 export function resolvePreviewOptions(
   preview: PreviewOptions | undefined,
   server: ResolvedServerOptions,
-) {
+): ResolvedPreviewOptions {
   // The preview server inherits every CommonServerOption from the `server` config
   // except for the port to enable having both the dev and preview servers running
   // at the same time without extra configuration
 
   return {
-    ...preview,
-    ...server,
+    port: preview?.port,
+    strictPort: preview?.strictPort ?? server.strictPort,
+    host: preview?.host ?? server.host,
+    https: preview?.https ?? server.https,
+    open: preview?.open ?? server.open,
+    proxy: preview?.proxy ?? server.proxy,
+    cors: preview?.cors ?? server.cors,
+    headers: preview?.headers ?? server.headers,
   }
 }
+
+/**
+ * Starts the server that serves the build output, i.e. to locally preview a production build.
+ */
+export async function preview(inlineConfig: InlineConfig = {}): Promise<PreviewServer> {
+  const config = await resolveConfig(inlineConfig, 'serve', 'production', 'production')
+
+  const options = config.preview
+
+  const app = connect()
+
+  const httpServer = await resolveHttpServer(
+    options,
+    app,
+    await resolveHttpsConfig(options.https, config.cacheDir),
+  )
+
+  const server: PreviewServerForHook = {
+    config,
+    middlewares: app,
+    httpServer,
+    resolvedUrls: null,
+    printUrls() {
+      if (server.resolvedUrls) {
+        printServerUrls(server.resolvedUrls, options.host, config.logger.info)
+      } else {
+        throw new Error('cannot print server URLs before server is listening.')
+      }
+    },
+  }
+
+  // apply server hooks from plugins
+  const postHooks: (PostHook | void)[] = []
+
+  for (const hook of config.getSortedPluginHooks('configurePreviewServer')) {
+    postHooks.push(await hook(server))
+  }
+
+  // cors
+  const { cors } = options
+
+  if (cors !== false) {
+    app.use(corsMiddleware(typeof cors === 'boolean' ? {} : cors))
+  }
+
+  // proxy
+  const { proxy } = options
+
+  if (proxy) {
+    app.use(proxyMiddleware(httpServer, proxy, config))
+  }
+
+  const previewBase = config.base === './' || config.base === '' ? '/' : config.base
+
+  const distDirectory = path.resolve(config.root, config.build.outDirectory)
+
+  const { headers } = options
+
+  // static assets
+  app.use(
+    previewBase,
+    sirv(distDirectory, {
+      etag: true,
+      dev: true,
+      single: config.appType === 'spa',
+      setHeaders(res) {
+        if (headers) {
+          for (const name in headers) {
+            const header = headers[name]
+
+            if (header != null) {
+              res.setHeader(name, header)
+            }
+          }
+        }
+      },
+    }),
+  )
+
+  // apply post server hooks from plugins
+  postHooks.forEach((fn) => fn?.())
+
+  const port = options.port ?? DEFAULT_PREVIEW_PORT
+
+  const hostname = await resolveHostname(options.host)
+
+  const serverPort = await httpServerStart(httpServer, {
+    port,
+    strictPort: options.strictPort,
+    host: hostname.host,
+    logger: config.logger,
+  })
+
+  server.resolvedUrls = await resolveServerUrls(httpServer, options, config)
+
+  if (options.open) {
+    const path = typeof options.open === 'string' ? options.open : previewBase
+
+    const protocol = options.https ? 'https' : 'http'
+
+    openBrowser(
+      path.startsWith('http')
+        ? path
+        : new URL(path, `${protocol}://${hostname.name}:${serverPort}`).href,
+      true,
+      config.logger,
+    )
+  }
+
+  return server as PreviewServer
+}
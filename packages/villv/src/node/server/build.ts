@@ -167,8 +167,14 @@ export interface BuildOptions {
   copyPublicDirectory?: boolean
 
   /**
+   * Whether to generate a manifest file that maps source entries to their output chunks,
+   * CSS and assets. Useful when a backend renders the HTML itself.
+   *
+   * Set to a string to use it as the manifest's file name, relative to {@link outDirectory}.
+   *
+   * @default false - otherwise written to `manifest.json`.
    */
-  manifest?: boolean
+  manifest?: boolean | string
 
   /**
    */
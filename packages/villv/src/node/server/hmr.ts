@@ -1,5 +1,16 @@
-import type http from 'node:http'
+import fs from 'node:fs/promises'
+import path from 'node:path'
 
+import colors from 'picocolors'
+
+import type { Update } from '../../types/hmrPayload.js'
+import { CLIENT_DIRECTORY, CSS_LANGS_REGEX } from '../constants.js'
+import type { HttpServer } from '../http.js'
+import { cleanUrl, createDebugger, isJsRequest, normalizePath, unique, wrapId } from '../utils.js'
+
+import type { ModuleNode } from './moduleGraph.js'
+
+import type { DevelopmentServer } from './index.js'
 export interface HmrOptions {
   /**
    * Protocol to use for the websocket connection.
@@ -37,7 +48,575 @@ export interface HmrOptions {
   overlay: boolean
 
   /**
-   * The actual HTTP server?
+   * An existing HTTP server to handle the websocket upgrade requests on,
+   * e.g. the server that the middlewares are used in during middleware mode.
+   */
+  server?: HttpServer
+}
+
+const debugHmr = createDebugger('vite:hmr')
+
+const whitespaceRegex = /\s/
+
+const normalizedClientDirectory = normalizePath(CLIENT_DIRECTORY)
+
+/**
+ * Passed to the `handleHotUpdate` plugin hook.
+ */
+export interface HmrContext {
+  /**
+   * The file that changed.
+   */
+  file: string
+
+  /**
+   * The time of the change.
+   */
+  timestamp: number
+
+  /**
+   * The modules affected by the change.
+   */
+  modules: Array<ModuleNode>
+
+  /**
+   * Read the updated contents of the file.
+   */
+  read: () => string | Promise<string>
+
+  /**
+   * The development server.
    */
-  server?: http.Server
+  server: DevelopmentServer
+}
+
+/**
+ * A module that accepts an update, and the module whose update it accepts.
+ */
+interface PropagationBoundary {
+  boundary: ModuleNode
+  acceptedVia: ModuleNode
+}
+
+/**
+ * A dependency accepted via `import.meta.hot.accept(deps)`, and its location in the source code.
+ */
+export interface AcceptedHmrDep {
+  url: string
+  start: number
+  end: number
+}
+
+/**
+ * Show files inside the root relative to it.
+ */
+export function getShortName(file: string, root: string): string {
+  return file.startsWith(root + '/') ? path.posix.relative(root, file) : file
+}
+
+/**
+ * Handle a changed file by restarting the server, reloading the page,
+ * or sending HMR updates for the affected modules.
+ *
+ * @param configOnly Only handle changes to config files, i.e. when HMR is disabled.
+ */
+export async function handleHMRUpdate(
+  file: string,
+  server: DevelopmentServer,
+  configOnly: boolean,
+): Promise<void> {
+  const { ws, config, moduleGraph } = server
+
+  const shortFile = getShortName(file, config.root)
+
+  const fileName = path.basename(file)
+
+  const isConfig = file === config.configFile
+
+  const isConfigDependency = config.configFileDependencies.some((name) => file === name)
+
+  const isEnv =
+    config.inlineConfig.envFile !== false && (fileName === '.env' || fileName.startsWith('.env.'))
+
+  if (isConfig || isConfigDependency || isEnv) {
+    debugHmr?.(`[config change] ${colors.dim(shortFile)}`)
+
+    config.logger.info(
+      colors.green(`${path.relative(process.cwd(), file)} changed, restarting server...`),
+      { clear: true, timestamp: true },
+    )
+
+    try {
+      await server.restart()
+    } catch (e) {
+      config.logger.error(colors.red(`${e}`), { error: e as Error })
+    }
+
+    return
+  }
+
+  if (configOnly) {
+    return
+  }
+
+  debugHmr?.(`[file change] ${colors.dim(shortFile)}`)
+
+  // The client itself can't be hot updated.
+  if (file.startsWith(normalizedClientDirectory)) {
+    ws.send({ type: 'full-reload', path: '*' })
+    return
+  }
+
+  const mods = moduleGraph.getModulesByFile(file)
+
+  const timestamp = Date.now()
+
+  const hmrContext: HmrContext = {
+    file,
+    timestamp,
+    modules: mods ? [...mods] : [],
+    read: () => readModifiedFile(file),
+    server,
+  }
+
+  // Check if any plugin wants to perform custom HMR handling.
+  for (const hook of config.getSortedPluginHooks('handleHotUpdate')) {
+    const filteredModules = await hook(hmrContext)
+
+    if (filteredModules) {
+      hmrContext.modules = filteredModules
+    }
+  }
+
+  if (!hmrContext.modules.length) {
+    // HTML files can't be hot updated.
+    if (file.endsWith('.html')) {
+      config.logger.info(colors.green(`page reload `) + colors.dim(shortFile), {
+        clear: true,
+        timestamp: true,
+      })
+
+      ws.send({
+        type: 'full-reload',
+        path: config.server.middlewareMode
+          ? '*'
+          : '/' + normalizePath(path.relative(config.root, file)),
+      })
+    } else {
+      // Loaded but not in the module graph, probably not JS.
+      debugHmr?.(`[no modules matched] ${colors.dim(shortFile)}`)
+    }
+
+    return
+  }
+
+  updateModules(shortFile, hmrContext.modules, timestamp, server)
+}
+
+/**
+ * Find the HMR boundaries of the updated modules and send the updates to the client.
+ *
+ * If any of the modules can't be hot updated, a full reload is sent instead.
+ */
+export function updateModules(
+  file: string,
+  modules: ModuleNode[],
+  timestamp: number,
+  { config, ws, moduleGraph }: DevelopmentServer,
+  afterInvalidation?: boolean,
+): void {
+  const updates: Update[] = []
+
+  const invalidatedModules = new Set<ModuleNode>()
+
+  const traversedModules = new Set<ModuleNode>()
+
+  let needFullReload = false
+
+  for (const mod of modules) {
+    const boundaries: PropagationBoundary[] = []
+
+    const hasDeadEnd = propagateUpdate(mod, traversedModules, boundaries)
+
+    moduleGraph.invalidateModule(
+      mod,
+      invalidatedModules,
+      timestamp,
+      true,
+      boundaries.map((b) => b.boundary),
+    )
+
+    if (needFullReload) {
+      continue
+    }
+
+    if (hasDeadEnd) {
+      needFullReload = true
+      continue
+    }
+
+    updates.push(
+      ...boundaries.map(({ boundary, acceptedVia }) => ({
+        type: boundary.type,
+        timestamp,
+        path: normalizeHmrUrl(boundary.url),
+        explicitImportRequired:
+          boundary.type === 'js' ? isExplicitImportRequired(acceptedVia.url) : undefined,
+        acceptedPath: normalizeHmrUrl(acceptedVia.url),
+      })),
+    )
+  }
+
+  if (needFullReload) {
+    config.logger.info(colors.green(`page reload `) + colors.dim(file), {
+      clear: !afterInvalidation,
+      timestamp: true,
+    })
+
+    ws.send({ type: 'full-reload' })
+
+    return
+  }
+
+  if (updates.length === 0) {
+    debugHmr?.(colors.yellow(`no update happened `) + colors.dim(file))
+    return
+  }
+
+  config.logger.info(
+    colors.green(`hmr update `) + colors.dim([...new Set(updates.map((u) => u.path))].join(', ')),
+    { clear: !afterInvalidation, timestamp: true },
+  )
+
+  ws.send({ type: 'update', updates })
+}
+
+/**
+ * Update the importers of a file that was added or removed, i.e. to re-resolve failed imports.
+ */
+export async function handleFileAddUnlink(file: string, server: DevelopmentServer): Promise<void> {
+  const modules = [...(server.moduleGraph.getModulesByFile(file) ?? [])]
+
+  if (modules.length > 0) {
+    updateModules(getShortName(file, server.config.root), unique(modules), Date.now(), server)
+  }
+}
+
+/**
+ * Whether every binding an importer uses from a module is accepted by that module.
+ */
+function areAllImportsAccepted(importedBindings: Set<string>, acceptedExports: Set<string>) {
+  for (const binding of importedBindings) {
+    if (!acceptedExports.has(binding)) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Walk up the importers of a module until every chain reaches a module that accepts the update.
+ *
+ * @param boundaries Collects the modules that accept the update.
+ *
+ * @returns Whether a dead end was reached, i.e. a module with no accepting importers,
+ * or a circular import. The page needs to be fully reloaded in that case.
+ */
+function propagateUpdate(
+  node: ModuleNode,
+  traversedModules: Set<ModuleNode>,
+  boundaries: PropagationBoundary[],
+  currentChain: ModuleNode[] = [node],
+): boolean {
+  if (traversedModules.has(node)) {
+    return false
+  }
+
+  traversedModules.add(node)
+
+  // If the imports of the node haven't been analyzed, then it hasn't been loaded
+  // in the browser and propagation should stop.
+  if (node.id && node.isSelfAccepting === undefined) {
+    debugHmr?.(`[propagate update] stop propagation because not analyzed: ${colors.dim(node.id)}`)
+    return false
+  }
+
+  if (node.isSelfAccepting) {
+    boundaries.push({ boundary: node, acceptedVia: node })
+
+    // Additionally check for CSS importers, since a PostCSS plugin like
+    // Tailwind JIT may register any file as a dependency to a CSS file.
+    for (const importer of node.importers) {
+      if (CSS_LANGS_REGEX.test(importer.url) && !currentChain.includes(importer)) {
+        propagateUpdate(importer, traversedModules, boundaries, currentChain.concat(importer))
+      }
+    }
+
+    return false
+  }
+
+  // A partially accepted module with no importers is considered self-accepting,
+  // because the deal is "there are parts of myself I can't self accept if they are used outside of me".
+  // The imported module (this one) must also be updated before the importers,
+  // so that they get the fresh imported module when/if they are reloaded.
+  if (node.acceptedHmrExports) {
+    boundaries.push({ boundary: node, acceptedVia: node })
+  } else {
+    if (!node.importers.size) {
+      return true
+    }
+
+    // For a non-CSS file, if all of its importers are CSS files (registered via PostCSS plugins),
+    // it should be considered a dead end and force a full reload.
+    if (
+      !CSS_LANGS_REGEX.test(node.url) &&
+      [...node.importers].every((i) => CSS_LANGS_REGEX.test(i.url))
+    ) {
+      return true
+    }
+  }
+
+  for (const importer of node.importers) {
+    const subChain = currentChain.concat(importer)
+
+    if (importer.acceptedHmrDeps.has(node)) {
+      boundaries.push({ boundary: importer, acceptedVia: node })
+      continue
+    }
+
+    // The importer only uses exports that the node accepts, so the update stops at the node.
+    if (node.id && node.acceptedHmrExports && importer.importedBindings) {
+      const importedBindingsFromNode = importer.importedBindings.get(node.id)
+
+      if (
+        importedBindingsFromNode &&
+        areAllImportsAccepted(importedBindingsFromNode, node.acceptedHmrExports)
+      ) {
+        continue
+      }
+    }
+
+    // Circular imports are considered a dead end.
+    if (currentChain.includes(importer)) {
+      return true
+    }
+
+    if (propagateUpdate(importer, traversedModules, boundaries, subChain)) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Tell the client to dispose modules that are no longer imported.
+ */
+export function handlePrunedModules(modules: Set<ModuleNode>, { ws }: DevelopmentServer): void {
+  // Update the disposed modules' HMR timestamp, since if they're re-imported,
+  // they should re-apply side effects, and the browser won't re-import them without it.
+  const t = Date.now()
+
+  modules.forEach((mod) => {
+    mod.lastHMRTimestamp = t
+    debugHmr?.(`[dispose] ${colors.dim(mod.file)}`)
+  })
+
+  ws.send({ type: 'prune', paths: [...modules].map((m) => m.url) })
+}
+
+const LexerState = {
+  inCall: 0,
+  inSingleQuoteString: 1,
+  inDoubleQuoteString: 2,
+  inTemplateString: 3,
+  inArray: 4,
+} as const
+
+type LexerState = (typeof LexerState)[keyof typeof LexerState]
+
+/**
+ * Lex `import.meta.hot.accept()` for accepted deps.
+ *
+ * Since `hot.accept()` can only accept string literals or an array of string literals,
+ * a full parse of the source code isn't needed.
+ *
+ * @param start The index right after the opening parenthesis of the call.
+ * @param urls Collects the accepted deps.
+ *
+ * @returns Whether the module accepts itself.
+ */
+export function lexAcceptedHmrDeps(
+  code: string,
+  start: number,
+  urls: Set<AcceptedHmrDep>,
+): boolean {
+  let state: LexerState = LexerState.inCall
+
+  // The state can only be 2 levels deep, so a stack isn't needed.
+  let prevState: LexerState = LexerState.inCall
+
+  let currentDep = ''
+
+  function addDep(index: number) {
+    urls.add({ url: currentDep, start: index - currentDep.length - 1, end: index + 1 })
+    currentDep = ''
+  }
+
+  for (let i = start; i < code.length; i++) {
+    const char = code.charAt(i)
+
+    switch (state) {
+      case LexerState.inCall:
+      case LexerState.inArray: {
+        if (char === `'`) {
+          prevState = state
+          state = LexerState.inSingleQuoteString
+        } else if (char === `"`) {
+          prevState = state
+          state = LexerState.inDoubleQuoteString
+        } else if (char === '`') {
+          prevState = state
+          state = LexerState.inTemplateString
+        } else if (whitespaceRegex.test(char)) {
+          continue
+        } else if (state === LexerState.inCall) {
+          if (char === `[`) {
+            state = LexerState.inArray
+          } else {
+            // The first argument is neither a string literal nor an array literal
+            // (i.e. a callback), or there are no arguments.
+            // In both cases, the module accepts itself.
+            return true
+          }
+        } else if (char === `]`) {
+          return false
+        } else if (char !== ',') {
+          lexError(i)
+        }
+        break
+      }
+
+      case LexerState.inSingleQuoteString:
+      case LexerState.inDoubleQuoteString:
+      case LexerState.inTemplateString: {
+        const quote =
+          state === LexerState.inSingleQuoteString
+            ? `'`
+            : state === LexerState.inDoubleQuoteString
+            ? `"`
+            : '`'
+
+        if (char === quote) {
+          addDep(i)
+
+          // i.e. accept('foo', ...)
+          if (prevState === LexerState.inCall) {
+            return false
+          }
+
+          state = prevState
+        } else if (state === LexerState.inTemplateString && char === '$' && code[i + 1] === '{') {
+          lexError(i)
+        } else {
+          currentDep += char
+        }
+        break
+      }
+
+      default: {
+        throw new Error('unknown import.meta.hot lexer state')
+      }
+    }
+  }
+
+  return false
+}
+
+/**
+ * Lex `import.meta.hot.acceptExports()` for accepted export names.
+ *
+ * @param start The index right after the opening parenthesis of the call.
+ * @param exportNames Collects the accepted export names.
+ *
+ * @returns Whether any export names were accepted.
+ */
+export function lexAcceptedHmrExports(
+  code: string,
+  start: number,
+  exportNames: Set<string>,
+): boolean {
+  const urls = new Set<AcceptedHmrDep>()
+
+  lexAcceptedHmrDeps(code, start, urls)
+
+  for (const { url } of urls) {
+    exportNames.add(url)
+  }
+
+  return urls.size > 0
+}
+
+function lexError(pos: number): never {
+  const err = new Error(
+    `import.meta.hot.accept() can only accept string literals or an Array of string literals.`,
+  ) as Error & { pos: number }
+
+  err.pos = pos
+
+  throw err
+}
+
+/**
+ * When hot-reloading Vue files, the file may be read immediately on the change event,
+ * and sometimes this is too early and results in an empty buffer.
+ * Poll until the file's modified time has changed before reading again.
+ */
+async function readModifiedFile(file: string): Promise<string> {
+  const content = await fs.readFile(file, 'utf-8')
+
+  if (content) {
+    return content
+  }
+
+  const mtime = (await fs.stat(file)).mtimeMs
+
+  await new Promise<void>((resolve) => {
+    let n = 0
+
+    const poll = async () => {
+      n++
+
+      const newMtime = (await fs.stat(file)).mtimeMs
+
+      if (newMtime !== mtime || n > 10) {
+        resolve()
+      } else {
+        setTimeout(poll, 10)
+      }
+    }
+
+    setTimeout(poll, 10)
+  })
+
+  return await fs.readFile(file, 'utf-8')
+}
+
+/**
+ * HMR URLs are always absolute, so that the client can import them relative to the base.
+ */
+function normalizeHmrUrl(url: string): string {
+  if (url[0] !== '.' && url[0] !== '/') {
+    url = wrapId(url)
+  }
+
+  return url
+}
+
+/**
+ * Whether an updated module needs the `?import` query to be fetched as JS, i.e. CSS or assets.
+ */
+function isExplicitImportRequired(url: string): boolean {
+  return !isJsRequest(cleanUrl(url))
 }
@@ -0,0 +1,294 @@
+import path from 'node:path'
+
+import {
+  init,
+  parse as parseImports,
+  type ExportSpecifier,
+  type ImportSpecifier,
+} from 'es-module-lexer'
+import MagicString from 'magic-string'
+import { findStaticImports, parseStaticImport } from 'mlly'
+import colors from 'picocolors'
+
+import { CLIENT_PUBLIC_PATH, CSS_LANGS_REGEX, FS_PREFIX } from '../constants.js'
+import {
+  cleanUrl,
+  createDebugger,
+  filePathFromUrl,
+  injectQuery,
+  isDataUrl,
+  isExternalUrl,
+  isJsRequest,
+  isParentDirectory,
+  normalizePath,
+  removeImportQuery,
+  removeTimestampQuery,
+  wrapId,
+} from '../utils.js'
+
+import {
+  handlePrunedModules,
+  lexAcceptedHmrDeps,
+  lexAcceptedHmrExports,
+  type AcceptedHmrDep,
+} from './hmr.js'
+import type { ModuleNode } from './moduleGraph.js'
+
+import type { DevelopmentServer } from './index.js'
+
+const debug = createDebugger('vite:import-analysis')
+
+/**
+ * Find the imports of a transformed JS module, rewrite them to URLs the browser can fetch,
+ * and record them in the module graph.
+ *
+ * @returns The code with the rewritten imports.
+ */
+export async function analyzeImports(
+  code: string,
+  mod: ModuleNode,
+  server: DevelopmentServer,
+  ssr = false,
+): Promise<string> {
+  await init
+
+  let imports: readonly ImportSpecifier[]
+
+  let exports: readonly ExportSpecifier[]
+
+  try {
+    ;[imports, exports] = parseImports(code)
+  } catch (e) {
+    debug?.(`${colors.red('failed to parse imports of')} ${mod.url}: ${(e as Error).message}`)
+    return code
+  }
+
+  const importedUrls = new Set<string>()
+
+  const acceptedUrls = new Set<AcceptedHmrDep>()
+
+  const acceptedExports = new Set<string>()
+
+  // Map from the imported module's id to the bindings this module uses from it.
+  const importedBindings = server.config.experimental.hmrPartialAccept
+    ? new Map<string, Set<string>>()
+    : null
+
+  let hasHmr = false
+
+  let isSelfAccepting = false
+
+  let isPartiallySelfAccepting = false
+
+  const s = new MagicString(code)
+
+  for (const importSpecifier of imports) {
+    const { s: start, e: end, n: specifier, d: dynamicIndex, ss: statementStart } = importSpecifier
+
+    if (dynamicIndex === -2) {
+      // Check for `import.meta.hot` usage.
+      if (code.slice(end, end + 4) === '.hot') {
+        hasHmr = true
+
+        if (code.slice(end + 4, end + 18) === '.acceptExports') {
+          lexAcceptedHmrExports(code, code.indexOf('(', end + 18) + 1, acceptedExports)
+          isPartiallySelfAccepting = true
+        } else if (code.slice(end + 4, end + 11) === '.accept') {
+          if (lexAcceptedHmrDeps(code, code.indexOf('(', end + 11) + 1, acceptedUrls)) {
+            isSelfAccepting = true
+          }
+        }
+      }
+      continue
+    }
+
+    // A dynamic import with a non-literal argument.
+    if (!specifier) {
+      continue
+    }
+
+    if (isExternalUrl(specifier) || isDataUrl(specifier)) {
+      continue
+    }
+
+    const url = await normalizeImportUrl(specifier, mod, server, ssr)
+
+    if (!url) {
+      continue
+    }
+
+    const isDynamicImport = dynamicIndex > -1
+
+    // Record as a safe module, i.e. it can be served even if it's outside of `server.fs.allow`.
+    server.moduleGraph.safeModulesPath.add(filePathFromUrl(url))
+
+    // Modules that will be analyzed have their self-accepting status set afterwards.
+    const dep = await server.moduleGraph.ensureEntryFromUrl(url, ssr, CSS_LANGS_REGEX.test(url))
+
+    // Non-JS imports, e.g. stylesheets and assets, are served as JS modules with the `?import` query.
+    const importUrl = !ssr && !isJsRequest(url) ? injectQuery(url, 'import') : url
+
+    // Force the browser to re-fetch modules that have been updated via HMR.
+    const rewrittenUrl =
+      dep.lastHMRTimestamp > 0 ? injectQuery(importUrl, `t=${dep.lastHMRTimestamp}`) : importUrl
+
+    if (rewrittenUrl !== specifier) {
+      // Dynamic imports with string literals still include the quotes.
+      const quote = isDynamicImport ? code[start] : ''
+
+      s.overwrite(start, end, isDynamicImport ? `${quote}${rewrittenUrl}${quote}` : rewrittenUrl)
+    }
+
+    if (!isDynamicImport) {
+      importedUrls.add(url)
+    }
+
+    if (importedBindings && dep.id) {
+      extractImportedBindings(dep.id, code, importSpecifier, importedBindings)
+    }
+
+    debug?.(`${colors.dim(code.slice(statementStart, end))} -> ${colors.cyan(rewrittenUrl)}`)
+  }
+
+  const normalizedAcceptedUrls = new Set<string>()
+
+  for (const { url, start, end } of acceptedUrls) {
+    const normalized = (await normalizeImportUrl(url, mod, server, ssr)) ?? url
+
+    normalizedAcceptedUrls.add(normalized)
+
+    s.overwrite(start, end, JSON.stringify(normalized))
+  }
+
+  if (hasHmr && !ssr) {
+    debug?.(`${colors.dim(mod.url)} uses import.meta.hot, injecting the hot context.`)
+
+    s.prepend(
+      `import { createHotContext as __vite__createHotContext } from "${CLIENT_PUBLIC_PATH}";` +
+        `import.meta.hot = __vite__createHotContext(${JSON.stringify(mod.url)});`,
+    )
+  }
+
+  // A partially accepted module that accepts all of its exports behaves like a self-accepting module.
+  if (
+    !isSelfAccepting &&
+    isPartiallySelfAccepting &&
+    acceptedExports.size >= exports.length &&
+    exports.every((e) => acceptedExports.has(e.n))
+  ) {
+    isSelfAccepting = true
+  }
+
+  const prunedImports = await server.moduleGraph.updateModuleInfo(
+    mod,
+    importedUrls,
+    importedBindings,
+    normalizedAcceptedUrls,
+    isPartiallySelfAccepting ? acceptedExports : null,
+    isSelfAccepting,
+    ssr,
+  )
+
+  if (hasHmr && prunedImports) {
+    handlePrunedModules(prunedImports, server)
+  }
+
+  return s.hasChanged() ? s.toString() : code
+}
+
+/**
+ * Resolve an import specifier to a URL that can be served by the development server.
+ *
+ * - Files inside the root are served relative to the root.
+ * - Files outside the root are served with the {@link FS_PREFIX}.
+ * - Ids that aren't valid import specifiers (i.e. virtual modules) are wrapped.
+ *
+ * @returns The URL, or undefined if it couldn't be resolved, i.e. a bare import.
+ */
+async function normalizeImportUrl(
+  specifier: string,
+  importer: ModuleNode,
+  server: DevelopmentServer,
+  ssr: boolean,
+): Promise<string | undefined> {
+  const { root } = server.config
+
+  const resolved = await server.pluginContainer.resolveId(specifier, importer.id ?? undefined, {
+    ssr,
+  })
+
+  if (!resolved) {
+    if (specifier[0] === '/') {
+      return removeImportQuery(removeTimestampQuery(specifier))
+    }
+
+    // Without a resolver, relative imports are resolved against the importer's URL.
+    if (specifier[0] === '.') {
+      return path.posix.join(path.posix.dirname(cleanUrl(importer.url)), specifier)
+    }
+
+    return
+  }
+
+  if (resolved.external) {
+    return
+  }
+
+  const id = resolved.id
+
+  if (isParentDirectory(root, id)) {
+    return normalizePath(id.slice(root.length))
+  }
+
+  if (path.isAbsolute(cleanUrl(id))) {
+    return path.posix.join(FS_PREFIX, normalizePath(id))
+  }
+
+  return wrapId(id)
+}
+
+/**
+ * Record the bindings that an import uses from the imported module.
+ *
+ * Dynamic imports, `import.meta` and namespace imports use the whole module, recorded as `*`.
+ */
+function extractImportedBindings(
+  id: string,
+  code: string,
+  importSpecifier: ImportSpecifier,
+  importedBindings: Map<string, Set<string>>,
+): void {
+  let bindings = importedBindings.get(id)
+
+  if (!bindings) {
+    bindings = new Set<string>()
+    importedBindings.set(id, bindings)
+  }
+
+  if (importSpecifier.d > -1 || importSpecifier.d === -2) {
+    bindings.add('*')
+    return
+  }
+
+  const [match] = findStaticImports(code.slice(importSpecifier.ss, importSpecifier.se))
+
+  if (!match) {
+    return
+  }
+
+  const parsed = parseStaticImport(match)
+
+  if (parsed.namespacedImport) {
+    bindings.add('*')
+  }
+
+  if (parsed.defaultImport) {
+    bindings.add('default')
+  }
+
+  if (parsed.namedImports) {
+    for (const name of Object.keys(parsed.namedImports)) {
+      bindings.add(name)
+    }
+  }
+}
@@ -1,15 +1,60 @@
+import type { AddressInfo, Socket } from 'node:net'
 import path from 'node:path'
 
-import type { WatchOptions } from 'chokidar'
+import { watch, type FSWatcher, type WatchOptions } from 'chokidar'
+import connect from 'connect'
 import colors from 'picocolors'
+import picomatch from 'picomatch'
 
 import { getWorkspaceRoot } from '../../utils/project.js'
-import { CLIENT_DIRECTORY } from '../constants.js'
-import type { CommonServerOptions } from '../http.js'
-import type { Logger } from '../logger.js'
-import { isInNodeModules, isParentDirectory, normalizePath } from '../utils.js'
+import { resolveConfig, type InlineConfig, type ResolvedConfig } from '../config.js'
+import { CLIENT_DIRECTORY, DEFAULT_DEV_PORT, FS_PREFIX } from '../constants.js'
+import {
+  httpServerStart,
+  resolveHttpServer,
+  resolveHttpsConfig,
+  type CommonServerOptions,
+  type HttpServer,
+} from '../http.js'
+import { printServerUrls, type Logger, type ResolvedServerUrls } from '../logger.js'
+import type { PostHook } from '../plugin.js'
+import { clientInjectionsPlugin } from '../plugins/clientInjections.js'
+import {
+  cleanUrl,
+  filePathFromId,
+  isInNodeModules,
+  isParentDirectory,
+  normalizePath,
+  resolveHostname,
+  resolveServerUrls,
+} from '../utils.js'
+import { resolveChokidarOptions } from '../watch.js'
 
-import type { HmrOptions } from './hmr.js'
+import {
+  getShortName,
+  handleFileAddUnlink,
+  handleHMRUpdate,
+  updateModules,
+  type HmrOptions,
+} from './hmr.js'
+import { serveEmittedAssetMiddleware } from './middlewares/emittedAssets.js'
+import { errorMiddleware, prepareError } from './middlewares/error.js'
+import { htmlFallbackMiddleware } from './middlewares/htmlFallback.js'
+import { createDevHtmlTransformFn, indexHtmlMiddleware } from './middlewares/indexHtml.js'
+import { inspectMiddleware } from './middlewares/inspect.js'
+import { proxyMiddleware } from './middlewares/proxy.js'
+import { serveRawFsMiddleware, serveStaticMiddleware } from './middlewares/static.js'
+import { transformMiddleware } from './middlewares/transform.js'
+import { ModuleGraph } from './moduleGraph.js'
+import { openBrowser } from './openBrowser.js'
+import { createPluginContainer, type PluginContainer } from './plugin-container.js'
+import { bindShortcuts, type BindShortcutsOptions } from './shortcuts.js'
+import {
+  transformRequest,
+  type TransformRequestOptions,
+  type TransformResult,
+} from './transformRequest.js'
+import { createWebSocketServer, hmrPingMiddleware, type WebSocketServer } from './ws.js'
 
 export interface ServerOptions extends CommonServerOptions {
   /**
@@ -25,7 +70,12 @@ export interface ServerOptions extends CommonServerOptions {
   watch?: WatchOptions
 
   /**
-   * Configure the middleware mode.
+   * Create the server in middleware mode, i.e. without an HTTP server.
+   * Use {@link DevelopmentServer.middlewares} in an existing server instead.
+   *
+   * - `'html'` also serves the transformed `index.html`.
+   * - `'ssr'` skips HTML handling, so the existing server can render pages.
+   * - `true` handles HTML according to the `appType`.
    *
    * Set to false to disable.
    */
@@ -60,6 +110,18 @@ export interface ServerOptions extends CommonServerOptions {
    */
   sourcemapIgnoreList?: false | ((sourcePath: string, sourcemapPath: string) => boolean)
 
+  /**
+   * Whether to keep the intermediate result of each plugin's transform hook for every module,
+   * and serve them with the plugin hook metrics under `/__inspect`.
+   *
+   * The results are dropped when a module is invalidated.
+   * Enabling it keeps every module's intermediate code in memory, and serves it without
+   * any authentication, so only enable it while debugging plugins on a trusted network.
+   *
+   * @default false
+   */
+  inspect?: boolean
+
   /**
    * Force dependency pre-optimization regardless of whether dependencies have changed.
    *
@@ -69,6 +131,8 @@ export interface ServerOptions extends CommonServerOptions {
 }
 
 /**
+ * Whether the server in middleware mode handles HTML requests (`'html'`) or leaves them to the
+ * existing server (`'ssr'`).
  */
 export type MiddlewareMode = 'html' | 'ssr'
 
@@ -106,7 +170,7 @@ export interface FileSystemOptions {
 
 export interface ResolvedServerOptions extends ServerOptions {
   fs: Required<FileSystemServeOptions>
-  middlewareMode: boolean
+  middlewareMode: boolean | MiddlewareMode
   sourcemapIgnoreList: Exclude<ServerOptions['sourcemapIgnoreList'], false | undefined>
 }
 
@@ -166,7 +230,7 @@ export function resolveServerOptions(root: string, raw: ServerOptions | undefine
       raw?.sourcemapIgnoreList === false
         ? () => false
         : raw?.sourcemapIgnoreList ?? isInNodeModules,
-    middlewareMode: !!raw?.middlewareMode,
+    middlewareMode: raw?.middlewareMode ?? false,
     fs: {
       strict: raw?.fs?.strict ?? true,
       allow: allowDirs,
@@ -191,3 +255,504 @@ export function resolveServerOptions(root: string, raw: ServerOptions | undefine
 function resolvedAllowDir(root: string, dir: string): string {
   return normalizePath(path.resolve(root, dir))
 }
+
+/**
+ * The development server.
+ */
+export interface DevelopmentServer {
+  /**
+   * The resolved config object.
+   */
+  config: ResolvedConfig
+
+  /**
+   * A connect app instance.
+   *
+   * - Can be used to attach custom middlewares to the dev server.
+   * - Can also be used as the handler function of a custom http server or as a middleware
+   *   in any connect-style Node.js frameworks.
+   */
+  middlewares: connect.Server
+
+  /**
+   * The native Node.js HTTP server instance.
+   *
+   * Will be null in middleware mode.
+   */
+  httpServer: HttpServer | null
+
+  /**
+   * Chokidar watcher instance.
+   *
+   * @see https://github.com/paulmillr/chokidar#api
+   */
+  watcher: FSWatcher
+
+  /**
+   * Websocket server with a `send(payload)` method.
+   */
+  ws: WebSocketServer
+
+  /**
+   * Rollup plugin container that can run plugin hooks on a given file.
+   */
+  pluginContainer: PluginContainer
+
+  /**
+   * Module graph that tracks the import relationships, url to file mapping and HMR state.
+   */
+  moduleGraph: ModuleGraph
+
+  /**
+   * The resolved URLs that the server is listening on.
+   *
+   * Null in middleware mode or before `server.listen` is called.
+   */
+  resolvedUrls: ResolvedServerUrls | null
+
+  /**
+   * Programmatically resolve, load and transform a URL and get the result
+   * without going through the HTTP request pipeline.
+   */
+  transformRequest(url: string, options?: TransformRequestOptions): Promise<TransformResult | null>
+
+  /**
+   * Apply the built-in and plugin HTML transforms, i.e. `transformIndexHtml` hooks.
+   */
+  transformIndexHtml(url: string, html: string, originalUrl?: string): Promise<string>
+
+  /**
+   * Start the server.
+   */
+  listen(port?: number, isRestart?: boolean): Promise<DevelopmentServer>
+
+  /**
+   * Stop the server.
+   */
+  close(): Promise<void>
+
+  /**
+   * Print server urls.
+   */
+  printUrls(): void
+
+  /**
+   * Open the server's URL in the browser, joined with the `server.open` path if it's a string.
+   */
+  openBrowser(): void
+
+  /**
+   * Restart the server.
+   */
+  restart(): Promise<void>
+
+  /**
+   * Point the closures of the server's methods at another server object,
+   * i.e. the object the server's properties were copied to when restarting.
+   *
+   * @internal
+   */
+  _setInternalServer(server: DevelopmentServer): void
+
+  /**
+   * Set while the server is restarting, so outdated requests can be rejected.
+   *
+   * @internal
+   */
+  _restartPromise: Promise<void> | null
+
+  /**
+   * Whether a file matches one of the `server.fs.deny` patterns.
+   *
+   * @internal
+   */
+  _fsDenyGlob: (path: string) => boolean
+
+  /**
+   * The options that the CLI shortcuts were bound with, so they can be re-bound after a restart.
+   *
+   * @internal
+   */
+  _shortcutsOptions?: BindShortcutsOptions<DevelopmentServer>
+}
+
+/**
+ * Create a development server from the inline config and the config file.
+ *
+ * The server doesn't start listening until {@link DevelopmentServer.listen} is called.
+ */
+export async function createServer(inlineConfig: InlineConfig = {}): Promise<DevelopmentServer> {
+  const config = await resolveConfig(inlineConfig, 'serve')
+
+  const { root, server: serverConfig } = config
+
+  const middlewares = connect()
+
+  const httpsOptions = await resolveHttpsConfig(serverConfig.https, config.cacheDir)
+
+  const httpServer = serverConfig.middlewareMode
+    ? null
+    : await resolveHttpServer(serverConfig, middlewares, httpsOptions)
+
+  const ws = createWebSocketServer(httpServer, config, httpsOptions)
+
+  const watcher = watch(
+    // config file dependencies and env file might be outside of root
+    [root, ...config.configFileDependencies, config.envDir],
+    resolveChokidarOptions(config.cacheDir, {
+      disableGlobbing: true,
+      ...serverConfig.watch,
+    }),
+  )
+
+  const moduleGraph: ModuleGraph = new ModuleGraph(
+    async (url, ssr) =>
+      (await pluginContainer.resolveId(url, undefined, { ssr })) ?? {
+        id: resolveFileFromUrl(url, root),
+      },
+  )
+
+  const pluginContainer = await createPluginContainer(
+    { ...config, plugins: [clientInjectionsPlugin(config), ...config.plugins] },
+    moduleGraph,
+    watcher,
+  )
+
+  const closeHttpServer = createServerCloseFn(httpServer)
+
+  let exitProcess: (() => Promise<void>) | undefined
+
+  let serverInitialized = false
+
+  const initServer = async () => {
+    if (serverInitialized) {
+      return
+    }
+
+    serverInitialized = true
+
+    ws.listen()
+
+    await pluginContainer.buildStart({})
+  }
+
+  const devHtmlTransformFn = createDevHtmlTransformFn(config)
+
+  let server: DevelopmentServer = {
+    config,
+    middlewares,
+    httpServer,
+    watcher,
+    ws,
+    pluginContainer,
+    moduleGraph,
+    resolvedUrls: null,
+    transformRequest(url, options) {
+      return transformRequest(url, server, options)
+    },
+    transformIndexHtml(url, html, originalUrl) {
+      return devHtmlTransformFn(server, url, html, originalUrl)
+    },
+    async listen(port, isRestart) {
+      await initServer()
+
+      await startServer(server, port)
+
+      if (!isRestart && serverConfig.open) {
+        server.openBrowser()
+      }
+
+      return server
+    },
+    async close() {
+      if (exitProcess) {
+        process.off('SIGTERM', exitProcess)
+      }
+
+      await Promise.allSettled([
+        watcher.close(),
+        ws.close(),
+        pluginContainer.close(),
+        closeHttpServer(),
+      ])
+
+      server.resolvedUrls = null
+    },
+    printUrls() {
+      if (server.resolvedUrls) {
+        printServerUrls(server.resolvedUrls, serverConfig.host, config.logger.info)
+      } else if (serverConfig.middlewareMode) {
+        throw new Error('cannot print server URLs in middleware mode.')
+      } else {
+        throw new Error('cannot print server URLs before server.listen is called.')
+      }
+    },
+    openBrowser() {
+      const url = server.resolvedUrls?.local[0] ?? server.resolvedUrls?.network[0]
+
+      if (url) {
+        const path =
+          typeof serverConfig.open === 'string' ? new URL(serverConfig.open, url).href : url
+
+        openBrowser(path, true, config.logger)
+      } else {
+        config.logger.warn('No URL available to open in browser')
+      }
+    },
+    async restart() {
+      server._restartPromise ??= restartServer(server).finally(() => {
+        server._restartPromise = null
+      })
+
+      return server._restartPromise
+    },
+    _setInternalServer(_server) {
+      // Rebind the internal server variable so that functions reference the user's server object.
+      server = _server
+    },
+    _restartPromise: null,
+    _fsDenyGlob: picomatch(serverConfig.fs.deny, { matchBase: true, nocase: true }),
+  }
+
+  if (!serverConfig.middlewareMode) {
+    exitProcess = async () => {
+      try {
+        await server.close()
+      } finally {
+        process.exit()
+      }
+    }
+
+    process.once('SIGTERM', exitProcess)
+  }
+
+  const onHMRUpdate = async (file: string, configOnly: boolean) => {
+    if (serverConfig.hmr !== false) {
+      try {
+        await handleHMRUpdate(file, server, configOnly)
+      } catch (e) {
+        ws.send({ type: 'error', error: prepareError(e as Error) })
+      }
+    }
+  }
+
+  const onFileAddUnlink = async (file: string) => {
+    file = normalizePath(file)
+
+    await onHMRUpdate(file, true)
+
+    await handleFileAddUnlink(file, server)
+  }
+
+  watcher.on('change', async (file) => {
+    file = normalizePath(file)
+
+    // invalidate module graph cache on file change
+    moduleGraph.onFileChange(file)
+
+    await onHMRUpdate(file, false)
+  })
+
+  watcher.on('add', onFileAddUnlink)
+
+  watcher.on('unlink', onFileAddUnlink)
+
+  // A module that received an update it can't handle asks to propagate it to its importers instead.
+  ws.on('vite:invalidate', async ({ path, message }) => {
+    const mod = moduleGraph.urlToModuleMap.get(path)
+
+    if (mod?.isSelfAccepting && mod.lastHMRTimestamp > 0) {
+      config.logger.info(
+        colors.yellow(`hmr invalidate `) + colors.dim(path) + (message ? ` ${message}` : ''),
+        { timestamp: true },
+      )
+
+      const file = getShortName(mod.file ?? path, config.root)
+
+      updateModules(file, [...mod.importers], mod.lastHMRTimestamp, server, true)
+    }
+  })
+
+  if (httpServer) {
+    httpServer.once('listening', () => {
+      // update actual port since this may be different from initial value
+      serverConfig.port = (httpServer.address() as AddressInfo).port
+    })
+  }
+
+  // apply server configuration hooks from plugins
+  const postHooks: (PostHook | void)[] = []
+
+  for (const hook of config.getSortedPluginHooks('configureServer')) {
+    postHooks.push(await hook(server))
+  }
+
+  // respond to the client's pings while it's waiting for the server to restart
+  middlewares.use(hmrPingMiddleware())
+
+  // plugin hook metrics and intermediate transform results
+  if (serverConfig.inspect) {
+    middlewares.use(inspectMiddleware(server))
+  }
+
+  // proxy
+  const { proxy } = serverConfig
+
+  if (proxy) {
+    middlewares.use(proxyMiddleware(httpServer, proxy, config))
+  }
+
+  // serve assets emitted by plugins
+  middlewares.use(serveEmittedAssetMiddleware(server))
+
+  // main transform middleware
+  middlewares.use(transformMiddleware(server))
+
+  // serve files outside of the root with the `/@fs/` prefix
+  middlewares.use(serveRawFsMiddleware(server))
+
+  // serve static files
+  middlewares.use(serveStaticMiddleware(root, server))
+
+  // An explicit middleware mode decides whether HTML is handled, otherwise the app type does.
+  const serveHtml =
+    serverConfig.middlewareMode === 'html' ||
+    (serverConfig.middlewareMode !== 'ssr' &&
+      (config.appType === 'spa' || config.appType === 'mpa'))
+
+  // html fallback
+  if (serveHtml) {
+    middlewares.use(htmlFallbackMiddleware(root, config.appType !== 'mpa'))
+  }
+
+  // run post config hooks
+  // This is applied before the html middleware so that user middleware can
+  // serve custom content instead of index.html.
+  postHooks.forEach((fn) => fn?.())
+
+  if (serveHtml) {
+    // transform index.html
+    middlewares.use(indexHtmlMiddleware(server))
+  }
+
+  // handle errors, e.g. from plugin hooks, and show them in the client's overlay
+  middlewares.use(errorMiddleware(server, !!serverConfig.middlewareMode))
+
+  if (!httpServer) {
+    await initServer()
+  }
+
+  return server
+}
+
+/**
+ * When no plugin resolves a URL, fall back to interpreting it as a file path.
+ *
+ * URLs prefixed with {@link FS_PREFIX} are absolute file system paths,
+ * and everything else is relative to the project root.
+ */
+function resolveFileFromUrl(url: string, root: string): string {
+  if (url.startsWith(FS_PREFIX)) {
+    return filePathFromId(url)
+  }
+
+  const cleanedUrl = cleanUrl(url)
+
+  return normalizePath(path.join(root, cleanedUrl)) + url.slice(cleanedUrl.length)
+}
+
+async function startServer(server: DevelopmentServer, inlinePort?: number): Promise<void> {
+  const { httpServer } = server
+
+  if (!httpServer) {
+    throw new Error('Cannot call server.listen in middleware mode.')
+  }
+
+  const options = server.config.server
+
+  const port = inlinePort ?? options.port ?? DEFAULT_DEV_PORT
+
+  const hostname = await resolveHostname(options.host)
+
+  await httpServerStart(httpServer, {
+    port,
+    strictPort: options.strictPort,
+    host: hostname.host,
+    logger: server.config.logger,
+  })
+
+  server.resolvedUrls = await resolveServerUrls(httpServer, options, server.config)
+}
+
+async function restartServer(server: DevelopmentServer): Promise<void> {
+  const { port, middlewareMode } = server.config.server
+
+  let newServer: DevelopmentServer
+
+  try {
+    newServer = await createServer(server.config.inlineConfig)
+  } catch (e) {
+    server.config.logger.error(colors.red((e as Error).message), {
+      timestamp: true,
+      error: e as Error,
+    })
+    return
+  }
+
+  await server.close()
+
+  // Keep the same object reference, so that anyone holding onto the old server
+  // (e.g. the CLI) sees the updated properties.
+  const { _restartPromise } = server
+
+  Object.assign(server, newServer, { _restartPromise })
+
+  newServer._setInternalServer(server)
+
+  if (!middlewareMode) {
+    await server.listen(port, true)
+  }
+
+  server.config.logger.info('server restarted.', { timestamp: true })
+
+  // The old HTTP server was closed, which also unbound the shortcuts.
+  if (server._shortcutsOptions) {
+    bindShortcuts(server, { ...server._shortcutsOptions, print: false })
+  }
+}
+
+/**
+ * Creates a function that closes the HTTP server and destroys any open sockets.
+ */
+function createServerCloseFn(server: HttpServer | null): () => Promise<void> {
+  if (!server) {
+    return async () => {}
+  }
+
+  let hasListened = false
+
+  const openSockets = new Set<Socket>()
+
+  server.on('connection', (socket) => {
+    openSockets.add(socket)
+
+    socket.on('close', () => {
+      openSockets.delete(socket)
+    })
+  })
+
+  server.once('listening', () => {
+    hasListened = true
+  })
+
+  return () =>
+    new Promise<void>((resolve, reject) => {
+      openSockets.forEach((socket) => socket.destroy())
+
+      if (hasListened) {
+        server.close((err) => (err ? reject(err) : resolve()))
+      } else {
+        resolve()
+      }
+    })
+}
@@ -0,0 +1,35 @@
+import path from 'node:path'
+
+import type Connect from 'connect'
+import { lookup } from 'mrmime'
+
+import { EMITTED_ASSET_PREFIX } from '../../constants.js'
+import type { DevelopmentServer } from '../index.js'
+
+import { send } from './send.js'
+
+/**
+ * Serve the assets that plugins emitted via `this.emitFile` from memory.
+ */
+export function serveEmittedAssetMiddleware(server: DevelopmentServer): Connect.NextHandleFunction {
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  const prefix = path.posix.join(server.config.base, EMITTED_ASSET_PREFIX)
+
+  return function viteServeEmittedAssetMiddleware(req, res, next) {
+    if (req.url == null || !req.url.startsWith(prefix)) {
+      return next()
+    }
+
+    const url = new URL(req.url, 'http://example.com')
+
+    const asset = server.pluginContainer.getEmittedAsset(decodeURI(url.pathname))
+
+    if (asset?.source == null) {
+      return next()
+    }
+
+    const content = typeof asset.source === 'string' ? asset.source : Buffer.from(asset.source)
+
+    send(req, res, content, lookup(asset.fileName) ?? 'application/octet-stream')
+  }
+}
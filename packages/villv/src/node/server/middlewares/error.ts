@@ -0,0 +1,181 @@
+import path from 'node:path'
+import { stripVTControlCharacters } from 'node:util'
+
+import { TraceMap, originalPositionFor, type SourceMapInput } from '@jridgewell/trace-mapping'
+import type Connect from 'connect'
+import colors from 'picocolors'
+import type { RollupError } from 'rollup'
+
+import type { ErrorInfo } from '../../../types/hmrPayload.js'
+import { CLIENT_PUBLIC_PATH } from '../../constants.js'
+import { pad } from '../../utils.js'
+import type { DevelopmentServer } from '../index.js'
+import type { ModuleGraph } from '../moduleGraph.js'
+
+/**
+ * Only keep the stack frames of an error's stack.
+ */
+export function cleanStack(stack: string): string {
+  return stack
+    .split(/\n/g)
+    .filter((l) => /^\s*at/.test(l))
+    .join('\n')
+}
+
+/**
+ * Build a readable message for the terminal from an error thrown by a plugin.
+ *
+ * @param args Lines to print before the details of the error.
+ */
+export function buildErrorMessage(
+  err: RollupError,
+  args: string[] = [],
+  includeStack = true,
+): string {
+  const errorMessageLines = [...args]
+
+  if (err.plugin) {
+    errorMessageLines.push(`  Plugin: ${colors.magenta(err.plugin)}`)
+  }
+
+  const loc = err.loc ? `:${err.loc.line}:${err.loc.column}` : ''
+
+  if (err.id) {
+    errorMessageLines.push(`  File: ${colors.cyan(err.id)}${loc}`)
+  }
+
+  if (err.frame) {
+    errorMessageLines.push(colors.yellow(pad(err.frame)))
+  }
+
+  if (includeStack && err.stack) {
+    errorMessageLines.push(pad(cleanStack(err.stack)))
+  }
+
+  return errorMessageLines.join('\n')
+}
+
+/**
+ * Convert an error into the shape that's sent to the client's error overlay.
+ *
+ * Only the needed information is copied, because some errors have full objects attached to them,
+ * e.g. PostCSS errors.
+ */
+export function prepareError(err: Error | RollupError): ErrorInfo {
+  const { id, frame, plugin, pluginCode, loc } = err as RollupError
+
+  return {
+    message: stripVTControlCharacters(err.message),
+    stack: stripVTControlCharacters(cleanStack(err.stack ?? '')),
+    id,
+    frame: stripVTControlCharacters(frame ?? ''),
+    plugin,
+    pluginCode: pluginCode?.toString(),
+    loc,
+  }
+}
+
+/**
+ * Map the stack frames that point into transformed modules back to their original source.
+ */
+export function rewriteStacktrace(stack: string, moduleGraph: ModuleGraph): string {
+  return stack
+    .split('\n')
+    .map((stackLine) =>
+      stackLine.replace(
+        /^(\s*at (?:.*\()?)(.+?):(\d+):(\d+)(\)?)$/,
+        (input, prefix: string, id: string, line: string, column: string, suffix: string) => {
+          const mod = moduleGraph.getModuleById(id)
+
+          const rawSourceMap = (mod?.transformResult ?? mod?.ssrTransformResult)?.map
+
+          if (!rawSourceMap) {
+            return input
+          }
+
+          const traced = new TraceMap(rawSourceMap as SourceMapInput)
+
+          const position = originalPositionFor(traced, {
+            line: Number(line),
+            // Stack trace columns are 1-based, source map columns are 0-based.
+            column: Number(column) - 1,
+          })
+
+          if (!position.source || position.line == null || position.column == null) {
+            return input
+          }
+
+          return `${prefix}${position.source}:${position.line}:${position.column + 1}${suffix}`
+        },
+      ),
+    )
+    .join('\n')
+}
+
+/**
+ * Log an error in the terminal and show it in the client's error overlay.
+ */
+export function logError(server: DevelopmentServer, err: RollupError): void {
+  if (err.stack) {
+    err.stack = rewriteStacktrace(err.stack, server.moduleGraph)
+  }
+
+  const message = buildErrorMessage(err, [colors.red(`Internal server error: ${err.message}`)])
+
+  server.config.logger.error(message, {
+    clear: true,
+    timestamp: true,
+    error: err,
+  })
+
+  server.ws.send({ type: 'error', error: prepareError(err) })
+}
+
+/**
+ * Handle errors from the previous middlewares, e.g. errors thrown by plugin hooks,
+ * so that they're reported to the terminal and the client, and the server keeps running.
+ *
+ * @param allowNext Whether to let the next middleware respond, e.g. in middleware mode.
+ */
+export function errorMiddleware(
+  server: DevelopmentServer,
+  allowNext = false,
+): Connect.ErrorHandleFunction {
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return function viteErrorMiddleware(err: RollupError, _req, res, next) {
+    logError(server, err)
+
+    if (allowNext) {
+      return next()
+    }
+
+    res.statusCode = 500
+    res.setHeader('Content-Type', 'text/html')
+    res.end(renderErrorHTML(err, server.config.base))
+  }
+}
+
+function renderErrorHTML(err: RollupError, base: string): string {
+  // to have syntax highlighting and autocompletion in IDE
+  const html = String.raw
+
+  // Escape `<` so that the error can't close the script tag.
+  const error = JSON.stringify(prepareError(err)).replace(/</g, '\\u003c')
+
+  const clientPath = path.posix.join(base, CLIENT_PUBLIC_PATH)
+
+  return html`
+    <!doctype html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8" />
+        <title>Error</title>
+        <script type="module">
+          import { ErrorOverlay } from '${clientPath}'
+          document.body.appendChild(new ErrorOverlay(${error}))
+        </script>
+      </head>
+      <body></body>
+    </html>
+  `
+}
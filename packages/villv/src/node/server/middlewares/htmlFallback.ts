@@ -0,0 +1,65 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import type Connect from 'connect'
+
+import { cleanUrl, createDebugger } from '../../utils.js'
+
+const debug = createDebugger('vite:html-fallback')
+
+/**
+ * Rewrite navigation requests to the HTML file that should handle them.
+ *
+ * - `/dir/` is rewritten to `/dir/index.html` if it exists.
+ * - If `spaFallback` is enabled, any other navigation request is rewritten to `/index.html`.
+ */
+export function htmlFallbackMiddleware(
+  root: string,
+  spaFallback: boolean,
+): Connect.NextHandleFunction {
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return function viteHtmlFallbackMiddleware(req, _res, next) {
+    if (
+      (req.method !== 'GET' && req.method !== 'HEAD') ||
+      req.url == null ||
+      !acceptsHtml(req.headers.accept)
+    ) {
+      return next()
+    }
+
+    const url = cleanUrl(req.url)
+
+    let pathname: string
+
+    try {
+      pathname = decodeURIComponent(url)
+    } catch (e) {
+      return next()
+    }
+
+    let rewritten: string | undefined
+
+    if (pathname.endsWith('/')) {
+      const indexHtml = pathname + 'index.html'
+
+      if (fs.existsSync(path.join(root, indexHtml))) {
+        rewritten = indexHtml
+      } else if (spaFallback) {
+        rewritten = '/index.html'
+      }
+    } else if (spaFallback && !path.posix.basename(pathname).includes('.')) {
+      rewritten = '/index.html'
+    }
+
+    if (rewritten) {
+      debug?.(`Rewriting ${req.method} ${req.url} to ${rewritten}`)
+      req.url = rewritten + req.url.slice(url.length)
+    }
+
+    next()
+  }
+}
+
+function acceptsHtml(accept = ''): boolean {
+  return accept.includes('text/html') || accept.includes('*/*')
+}
@@ -0,0 +1,99 @@
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+
+import type Connect from 'connect'
+
+import type { ResolvedConfig } from '../../config.js'
+import { CLIENT_PUBLIC_PATH, FS_PREFIX } from '../../constants.js'
+import {
+  applyHtmlTransforms,
+  resolveHtmlTransforms,
+  type IndexHtmlTransformHook,
+} from '../../plugins/html.js'
+import { cleanUrl, filePathFromId, normalizePath } from '../../utils.js'
+import type { DevelopmentServer } from '../index.js'
+
+import { send } from './send.js'
+
+/**
+ * Create the function used to transform `index.html` during development.
+ *
+ * Plugin hooks are applied in `pre`, internal, normal, then `post` order.
+ */
+export function createDevHtmlTransformFn(
+  config: ResolvedConfig,
+): (server: DevelopmentServer, url: string, html: string, originalUrl?: string) => Promise<string> {
+  const [preHooks, normalHooks, postHooks] = resolveHtmlTransforms(config.plugins)
+
+  return (server, url, html, originalUrl) => {
+    return applyHtmlTransforms(html, [...preHooks, devHtmlHook, ...normalHooks, ...postHooks], {
+      path: url,
+      filename: getHtmlFilename(url, server),
+      server,
+      originalUrl,
+    })
+  }
+}
+
+/**
+ * Inject the client script, which connects to the HMR server.
+ */
+const devHtmlHook: IndexHtmlTransformHook = (html, { server }) => {
+  const base = server?.config.base ?? '/'
+
+  return {
+    html,
+    tags: [
+      {
+        tag: 'script',
+        attrs: {
+          type: 'module',
+          src: path.posix.join(base, CLIENT_PUBLIC_PATH),
+        },
+        injectTo: 'head-prepend',
+      },
+    ],
+  }
+}
+
+function getHtmlFilename(url: string, server: DevelopmentServer): string {
+  if (url.startsWith(FS_PREFIX)) {
+    return decodeURIComponent(filePathFromId(url))
+  }
+
+  return decodeURIComponent(normalizePath(path.join(server.config.root, url.slice(1))))
+}
+
+/**
+ * Serve HTML files after transforming them with {@link DevelopmentServer.transformIndexHtml}.
+ */
+export function indexHtmlMiddleware(server: DevelopmentServer): Connect.NextHandleFunction {
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return async function viteIndexHtmlMiddleware(req, res, next) {
+    if (res.writableEnded) {
+      return next()
+    }
+
+    const url = req.url && cleanUrl(req.url)
+
+    // The HTML fallback middleware appends `index.html` to URLs.
+    if (url?.endsWith('.html') && req.headers['sec-fetch-dest'] !== 'script') {
+      const filename = getHtmlFilename(url, server)
+
+      if (fs.existsSync(filename)) {
+        try {
+          let html = await fsp.readFile(filename, 'utf-8')
+
+          html = await server.transformIndexHtml(url, html, req.originalUrl)
+
+          return send(req, res, html, 'html', { headers: server.config.server.headers })
+        } catch (e) {
+          return next(e)
+        }
+      }
+    }
+
+    next()
+  }
+}
@@ -0,0 +1,185 @@
+import path from 'node:path'
+
+import type Connect from 'connect'
+
+import { INSPECT_PATH } from '../../constants.js'
+import { escapeHtml } from '../../utils.js'
+import type { DevelopmentServer } from '../index.js'
+import type { ModuleTransformInfo, PluginMetrics } from '../plugin-container.js'
+
+import { send } from './send.js'
+
+/**
+ * Serve the plugin hook metrics and intermediate transform results recorded by the plugin container,
+ * under the configured `base`.
+ *
+ * - `/__inspect` renders an overview page.
+ * - `/__inspect/api/plugins` lists the metrics of each plugin, slowest first.
+ * - `/__inspect/api/modules` lists the transformed modules and the plugins that changed them.
+ * - `/__inspect/api/module?id=<id>` shows the result of each plugin that transformed a module.
+ *   Add `&ssr` for the module's SSR transform.
+ */
+export function inspectMiddleware(server: DevelopmentServer): Connect.NextHandleFunction {
+  const inspectPath = path.posix.join(server.config.base, INSPECT_PATH)
+
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return function viteInspectMiddleware(req, res, next) {
+    if (req.url == null || !req.url.startsWith(inspectPath)) {
+      return next()
+    }
+
+    const url = new URL(req.url, 'http://example.com')
+
+    switch (url.pathname.slice(inspectPath.length)) {
+      case '':
+      case '/': {
+        const html = renderInspectHtml(
+          inspectPath,
+          getSortedPluginMetrics(server),
+          getModuleTransforms(server),
+        )
+        return send(req, res, html, 'html')
+      }
+
+      case '/api/plugins': {
+        return send(req, res, JSON.stringify(getSortedPluginMetrics(server)), 'json')
+      }
+
+      case '/api/modules': {
+        const modules = getModuleTransforms(server).map(({ id, ssr, steps }) => ({
+          id,
+          ssr,
+          plugins: steps.map((step) => step.plugin),
+          time: steps.reduce((time, step) => time + step.time, 0),
+        }))
+        return send(req, res, JSON.stringify(modules), 'json')
+      }
+
+      case '/api/module': {
+        const id = url.searchParams.get('id')
+
+        const mod = id ? server.moduleGraph.getModuleById(id) : undefined
+
+        const transformInfo = url.searchParams.has('ssr')
+          ? mod?.ssrTransformInfo
+          : mod?.transformInfo
+
+        if (!transformInfo) {
+          res.statusCode = 404
+          return res.end()
+        }
+
+        return send(req, res, JSON.stringify(transformInfo), 'json')
+      }
+
+      default: {
+        return next()
+      }
+    }
+  }
+}
+
+/**
+ * The intermediate results of the latest transforms of the modules that haven't been invalidated since.
+ */
+function getModuleTransforms(server: DevelopmentServer): ModuleTransformInfo[] {
+  const transforms: ModuleTransformInfo[] = []
+
+  server.moduleGraph.idToModuleMap.forEach((mod) => {
+    if (mod.transformInfo) {
+      transforms.push(mod.transformInfo)
+    }
+
+    if (mod.ssrTransformInfo) {
+      transforms.push(mod.ssrTransformInfo)
+    }
+  })
+
+  return transforms
+}
+
+/**
+ * The metrics of each plugin, sorted by the total time spent in its hooks, slowest first.
+ */
+function getSortedPluginMetrics(server: DevelopmentServer): PluginMetrics[] {
+  return server.pluginContainer.getPluginMetrics().sort((a, b) => getTotalTime(b) - getTotalTime(a))
+}
+
+function getTotalTime(metrics: PluginMetrics): number {
+  return Object.values(metrics.hooks).reduce((time, hook) => time + hook.time, 0)
+}
+
+function renderInspectHtml(
+  inspectPath: string,
+  plugins: PluginMetrics[],
+  modules: ModuleTransformInfo[],
+): string {
+  // to have syntax highlighting and autocompletion in IDE
+  const html = String.raw
+
+  const formatHook = (metrics: PluginMetrics, hookName: keyof PluginMetrics['hooks']) => {
+    const hook = metrics.hooks[hookName]
+    return hook ? `${hook.calls} / ${hook.time.toFixed(2)}ms / ${hook.cacheHits}` : '-'
+  }
+
+  const pluginRows = plugins
+    .map(
+      (metrics) => html`
+        <tr>
+          <td>${escapeHtml(metrics.name)}</td>
+          <td>${formatHook(metrics, 'resolveId')}</td>
+          <td>${formatHook(metrics, 'load')}</td>
+          <td>${formatHook(metrics, 'transform')}</td>
+          <td>${getTotalTime(metrics).toFixed(2)}ms</td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  const moduleItems = modules
+    .map(({ id, ssr }) => {
+      const href = `${inspectPath}/api/module?id=${encodeURIComponent(id)}${ssr ? '&ssr' : ''}`
+
+      return html`
+        <li>
+          <a href="${escapeHtml(href)}">${escapeHtml(id)}${ssr ? ' (SSR)' : ''}</a>
+        </li>
+      `
+    })
+    .join('')
+
+  return html`
+    <!doctype html>
+    <html>
+      <body>
+        <h1>Plugins</h1>
+        <p>Calls / cumulative time / cached results reused instead of calling each hook.</p>
+        <table>
+          <tr>
+            <th>Plugin</th>
+            <th>resolveId</th>
+            <th>load</th>
+            <th>transform</th>
+            <th>Total</th>
+          </tr>
+          ${pluginRows}
+        </table>
+        <h1>Modules</h1>
+        <ul>
+          ${moduleItems}
+        </ul>
+        <style>
+          body {
+            padding: 1em 2em;
+            font-family: monospace;
+          }
+          th,
+          td {
+            padding: 0.25em 1em;
+            text-align: left;
+          }
+        </style>
+      </body>
+    </html>
+  `
+}
@@ -1,8 +1,17 @@
 import type http from 'node:http'
+import type net from 'node:net'
 
-import type ProxyServer from 'http-proxy'
+import type Connect from 'connect'
+import ProxyServer, { type ServerOptions } from 'http-proxy'
+import colors from 'picocolors'
 
-export interface ProxyOptions extends ProxyServer.ServerOptions {
+import type { ResolvedConfig } from '../../config.js'
+import type { CommonServerOptions, HttpServer } from '../../http.js'
+import { createDebugger } from '../../utils.js'
+
+const debug = createDebugger('vite:proxy')
+
+export interface ProxyOptions extends ServerOptions {
   /**
    * Rewrite the path of the request before it is sent to the target.
    */
@@ -36,3 +45,168 @@ export type ProxyBypass = (
   res: http.ServerResponse,
   options: ProxyOptions,
 ) => void | null | undefined | false | string
+
+/**
+ * Proxy requests whose URL matches one of the configured contexts.
+ *
+ * - A string value is shorthand for `{ target: value, changeOrigin: true }`.
+ * - Contexts starting with `^` are treated as regular expressions, everything else as a prefix.
+ * - Websocket upgrades are proxied when `ws` is set or the target is a `ws:` or `wss:` URL.
+ */
+export function proxyMiddleware(
+  httpServer: HttpServer | null,
+  options: NonNullable<CommonServerOptions['proxy']>,
+  config: ResolvedConfig,
+): Connect.NextHandleFunction {
+  const proxies: Record<string, [ProxyServer, ProxyOptions]> = {}
+
+  Object.keys(options).forEach((context) => {
+    let opts = options[context]
+
+    if (!opts) {
+      return
+    }
+
+    if (typeof opts === 'string') {
+      opts = { target: opts, changeOrigin: true }
+    }
+
+    const proxy = ProxyServer.createProxyServer(opts)
+
+    opts.configure?.(proxy, opts)
+
+    proxy.on('error', (err, _req, originalRes) => {
+      // When it is ws proxy, res is net.Socket
+      const res = originalRes as http.ServerResponse | net.Socket | undefined
+
+      // originalRes can be falsy if the proxy itself errored
+      if (!res) {
+        config.logger.error(`${colors.red(`http proxy error: ${err.message}`)}\n${err.stack}`, {
+          timestamp: true,
+          error: err,
+        })
+      } else if ('req' in res) {
+        config.logger.error(`${colors.red(`http proxy error at ${res.req.url}:`)}\n${err.stack}`, {
+          timestamp: true,
+          error: err,
+        })
+
+        if (!res.headersSent && !res.writableEnded) {
+          res.writeHead(500, { 'Content-Type': 'text/plain' }).end()
+        }
+      } else {
+        config.logger.error(`${colors.red(`ws proxy error:`)}\n${err.stack}`, {
+          timestamp: true,
+          error: err,
+        })
+
+        res.end()
+      }
+    })
+
+    proxy.on('proxyReqWs', (_proxyReq, _req, socket) => {
+      socket.on('error', (err) => {
+        config.logger.error(`${colors.red(`ws proxy socket error:`)}\n${err.stack}`, {
+          timestamp: true,
+          error: err,
+        })
+      })
+    })
+
+    // https://github.com/http-party/node-http-proxy/issues/1520#issue-877626125
+    proxy.on('proxyRes', (proxyRes, _req, res) => {
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          debug?.('destroying proxyRes in proxyRes close event')
+          proxyRes.destroy()
+        }
+      })
+    })
+
+    // clone before saving because http-proxy mutates the options
+    proxies[context] = [proxy, { ...opts }]
+  })
+
+  httpServer?.on('upgrade', (req, socket, head) => {
+    const url = req.url ?? ''
+
+    for (const context in proxies) {
+      if (!doesProxyContextMatchUrl(context, url)) {
+        continue
+      }
+
+      const [proxy, opts] = proxies[context] ?? []
+
+      if (!proxy || !opts) {
+        continue
+      }
+
+      const target = opts.target?.toString()
+
+      if (opts.ws || target?.startsWith('ws:') || target?.startsWith('wss:')) {
+        if (opts.rewrite) {
+          req.url = opts.rewrite(url)
+        }
+
+        debug?.(`${req.url} -> ws ${target}`)
+
+        proxy.ws(req, socket, head)
+
+        return
+      }
+    }
+  })
+
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return function viteProxyMiddleware(req, res, next) {
+    const url = req.url ?? ''
+
+    for (const context in proxies) {
+      if (!doesProxyContextMatchUrl(context, url)) {
+        continue
+      }
+
+      const [proxy, opts] = proxies[context] ?? []
+
+      if (!proxy || !opts) {
+        continue
+      }
+
+      if (opts.bypass) {
+        const bypassResult = opts.bypass(req, res, opts)
+
+        if (typeof bypassResult === 'string') {
+          debug?.(`bypass: ${req.url} -> ${bypassResult}`)
+
+          req.url = bypassResult
+
+          return next()
+        }
+
+        if (bypassResult === false) {
+          debug?.(`bypass: ${req.url} -> 404`)
+
+          res.statusCode = 404
+
+          return res.end()
+        }
+      }
+
+      debug?.(`${req.url} -> ${opts.target || opts.forward}`)
+
+      if (opts.rewrite) {
+        req.url = opts.rewrite(url)
+      }
+
+      proxy.web(req, res)
+
+      return
+    }
+
+    next()
+  }
+}
+
+function doesProxyContextMatchUrl(context: string, url: string): boolean {
+  return (context[0] === '^' && new RegExp(context).test(url)) || url.startsWith(context)
+}
@@ -0,0 +1,62 @@
+import type http from 'node:http'
+
+/**
+ * Content types for responses sent by the development server.
+ */
+const alias: Record<string, string | undefined> = {
+  js: 'application/javascript',
+  css: 'text/css',
+  html: 'text/html',
+  json: 'application/json',
+}
+
+/**
+ * Options for {@link send}.
+ */
+export interface SendOptions {
+  /**
+   * Value for the `Cache-Control` header.
+   *
+   * @default 'no-cache'
+   */
+  cacheControl?: string
+
+  /**
+   * Additional headers to set on the response.
+   */
+  headers?: http.OutgoingHttpHeaders
+}
+
+/**
+ * Send a string or buffer with the appropriate content type.
+ */
+export function send(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  content: string | Buffer,
+  type: string,
+  options: SendOptions = {},
+): void {
+  const { cacheControl = 'no-cache', headers } = options
+
+  if (res.writableEnded) {
+    return
+  }
+
+  res.setHeader('Content-Type', alias[type] ?? type)
+  res.setHeader('Cache-Control', cacheControl)
+
+  if (headers) {
+    for (const name in headers) {
+      const header = headers[name]
+
+      if (header != null) {
+        res.setHeader(name, header)
+      }
+    }
+  }
+
+  res.statusCode = 200
+
+  res.end(req.method === 'HEAD' ? undefined : content)
+}
@@ -0,0 +1,201 @@
+import type http from 'node:http'
+import path from 'node:path'
+
+import type Connect from 'connect'
+import sirv, { type Options } from 'sirv'
+
+import { FS_PREFIX } from '../../constants.js'
+import {
+  cleanUrl,
+  escapeHtml,
+  filePathFromId,
+  filePathFromUrl,
+  isFileReadable,
+  isInternalRequest,
+  isParentDirectory,
+  isSameFileUri,
+  isWindows,
+  normalizePath,
+  removeLeadingSlash,
+} from '../../utils.js'
+import type { DevelopmentServer } from '../index.js'
+
+/**
+ * Serve static files from a directory as-is.
+ */
+export function serveStaticMiddleware(
+  directory: string,
+  server: DevelopmentServer,
+): Connect.NextHandleFunction {
+  const serve = sirv(directory, sirvOptions(server))
+
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return function viteServeStaticMiddleware(req, res, next) {
+    // Only serve the file if it's not an html request or ends with `/`,
+    // so that html requests can fallthrough to the index.html middleware.
+    // Also skip internal requests, e.g. `/@fs/` and `/@vite/client`.
+    if (
+      req.url == null ||
+      req.url.endsWith('/') ||
+      req.url.endsWith('.html') ||
+      isInternalRequest(req.url)
+    ) {
+      return next()
+    }
+
+    const url = new URL(req.url.replace(/^\/{2,}/, '/'), 'http://example.com')
+
+    const pathname = decodeURI(url.pathname)
+
+    const file = normalizePath(path.resolve(directory, removeLeadingSlash(pathname)))
+
+    if (!ensureServingAccess(file, server, res, next)) {
+      return
+    }
+
+    serve(req, res, next)
+  }
+}
+
+/**
+ * Serve files outside of the root that are referenced with the {@link FS_PREFIX}, e.g. in linked monorepos.
+ */
+export function serveRawFsMiddleware(server: DevelopmentServer): Connect.NextHandleFunction {
+  const serveFromRoot = sirv('/', sirvOptions(server))
+
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return function viteServeRawFsMiddleware(req, res, next) {
+    if (req.url == null) {
+      return next()
+    }
+
+    const url = new URL(req.url.replace(/^\/{2,}/, '/'), 'http://example.com')
+
+    if (!url.pathname.startsWith(FS_PREFIX)) {
+      return next()
+    }
+
+    const pathname = decodeURI(url.pathname)
+
+    // restrict files outside of `fs.allow`
+    if (
+      !ensureServingAccess(normalizePath(path.resolve(filePathFromId(pathname))), server, res, next)
+    ) {
+      return
+    }
+
+    let newPathname = pathname.slice(FS_PREFIX.length)
+
+    if (isWindows) {
+      newPathname = newPathname.replace(/^[A-Z]:/i, '')
+    }
+
+    url.pathname = encodeURI(newPathname)
+
+    req.url = url.href.slice(url.origin.length)
+
+    serveFromRoot(req, res, next)
+  }
+}
+
+/**
+ * Check if the URL is allowed to be served, via the `server.fs` config.
+ *
+ * Denied files take priority over allowed directories,
+ * and modules that have already been imported by served code are always allowed.
+ */
+export function isFileServingAllowed(url: string, server: DevelopmentServer): boolean {
+  if (!server.config.server.fs.strict) {
+    return true
+  }
+
+  const file = filePathFromUrl(url)
+
+  if (server._fsDenyGlob(file)) {
+    return false
+  }
+
+  if (server.moduleGraph.safeModulesPath.has(file)) {
+    return true
+  }
+
+  return server.config.server.fs.allow.some(
+    (uri) => isSameFileUri(uri, file) || isParentDirectory(uri, file),
+  )
+}
+
+/**
+ * Respond with a 403 if the file isn't allowed to be served.
+ *
+ * @returns Whether the request can continue to be served by the caller.
+ */
+function ensureServingAccess(
+  url: string,
+  server: DevelopmentServer,
+  res: http.ServerResponse,
+  next: Connect.NextFunction,
+): boolean {
+  if (isFileServingAllowed(url, server)) {
+    return true
+  }
+
+  if (isFileReadable(cleanUrl(url))) {
+    const urlMessage = `The request url "${url}" is outside of villv serving allow list.`
+
+    const hintMessage = `
+${server.config.server.fs.allow.map((i) => `- ${i}`).join('\n')}
+
+Refer to docs https://vitejs.dev/config/server-options.html#server-fs-allow for configurations and more details.`
+
+    server.config.logger.error(urlMessage)
+    server.config.logger.warnOnce(hintMessage + '\n')
+
+    res.statusCode = 403
+    res.write(renderRestrictedErrorHTML(urlMessage + '\n' + hintMessage))
+    res.end()
+  } else {
+    // If the file doesn't exist, don't restrict the path since it can be an API call.
+    // Other middlewares will respond with a 404 if the file isn't handled.
+    next()
+  }
+
+  return false
+}
+
+function renderRestrictedErrorHTML(message: string): string {
+  // to have syntax highlighting and autocompletion in IDE
+  const html = String.raw
+
+  return html`
+    <body>
+      <h1>403 Restricted</h1>
+      <p>${escapeHtml(message).replace(/\n/g, '<br/>')}</p>
+      <style>
+        body {
+          padding: 1em 2em;
+        }
+      </style>
+    </body>
+  `
+}
+
+function sirvOptions(server: DevelopmentServer): Options {
+  return {
+    dev: true,
+    etag: true,
+    extensions: [],
+    setHeaders(res) {
+      const { headers } = server.config.server
+
+      if (headers) {
+        for (const name in headers) {
+          const header = headers[name]
+
+          if (header != null) {
+            res.setHeader(name, header)
+          }
+        }
+      }
+    },
+  }
+}
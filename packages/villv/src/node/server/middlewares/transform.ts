@@ -0,0 +1,140 @@
+import path from 'node:path'
+
+import type Connect from 'connect'
+
+import { CLIENT_PUBLIC_PATH, CSS_LANGS_REGEX, NULL_BYTE_PLACEHOLDER } from '../../constants.js'
+import {
+  cleanUrl,
+  isImportRequest,
+  isJsRequest,
+  removeImportQuery,
+  removeTimestampQuery,
+  unwrapId,
+} from '../../utils.js'
+import type { DevelopmentServer } from '../index.js'
+import { ERR_CLOSED_SERVER } from '../plugin-container.js'
+import { ERR_LOAD_URL, transformRequest } from '../transformRequest.js'
+
+import { send, type SendOptions } from './send.js'
+
+/**
+ * Requests that are never handled by the transform middleware.
+ */
+const knownIgnoreList = new Set(['/', '/favicon.ico'])
+
+/**
+ * Serves JS, CSS and imported modules by running them through the plugin container.
+ */
+export function transformMiddleware(server: DevelopmentServer): Connect.NextHandleFunction {
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return async function viteTransformMiddleware(req, res, next) {
+    if (req.method !== 'GET' || req.url == null || knownIgnoreList.has(req.url)) {
+      return next()
+    }
+
+    let url: string
+
+    try {
+      url = decodeURI(removeTimestampQuery(req.url)).replace(NULL_BYTE_PLACEHOLDER, '\0')
+    } catch (e) {
+      return next(e)
+    }
+
+    if (cleanUrl(url).endsWith('.map')) {
+      return next()
+    }
+
+    if (!isJsRequest(url) && !isImportRequest(url) && !CSS_LANGS_REGEX.test(url)) {
+      return next()
+    }
+
+    // Stylesheets requested directly, e.g. via `<link rel="stylesheet">`, are served as CSS.
+    // Stylesheets and assets imported by JS modules have the `?import` query added by import
+    // analysis, and are served as JS modules.
+    const isImport = isImportRequest(url)
+
+    const isCss = CSS_LANGS_REGEX.test(url)
+
+    const publicUrl = removeImportQuery(url)
+
+    // Strip ?import and the valid id prefix that's prepended to resolved ids.
+    url = unwrapId(publicUrl)
+
+    const sendOptions: SendOptions = {
+      cacheControl: 'no-cache',
+      headers: server.config.server.headers,
+    }
+
+    if (isImport && !isCss && server.config.assetsInclude(cleanUrl(url))) {
+      return send(req, res, `export default ${JSON.stringify(publicUrl)}`, 'js', sendOptions)
+    }
+
+    try {
+      const result = await transformRequest(url, server, {
+        html: req.headers.accept?.includes('text/html'),
+      })
+
+      if (result) {
+        if (isCss && isImport) {
+          const mod = await server.moduleGraph.getModuleByUrl(url)
+
+          // Stylesheets aren't analyzed, so the wrapper's `import.meta.hot.accept()` is recorded here.
+          if (mod) {
+            mod.isSelfAccepting = true
+          }
+
+          return send(
+            req,
+            res,
+            wrapImportedStyle(publicUrl, result.code, server),
+            'js',
+            sendOptions,
+          )
+        }
+
+        return send(req, res, result.code, isCss ? 'css' : 'js', sendOptions)
+      }
+    } catch (e) {
+      const code = (e as { code?: string } | undefined)?.code
+
+      if (code === ERR_CLOSED_SERVER) {
+        // Skip if response has already been sent.
+        if (!res.writableEnded) {
+          res.statusCode = 504 // status code request timeout
+          res.statusMessage = 'Outdated Request'
+          res.end()
+        }
+
+        return
+      }
+
+      // Let other middleware handle if we can't load the url via transformRequest.
+      if (code === ERR_LOAD_URL) {
+        return next()
+      }
+
+      return next(e)
+    }
+
+    next()
+  }
+}
+
+/**
+ * Create a JS module that applies an imported stylesheet, and updates it via HMR.
+ */
+function wrapImportedStyle(url: string, css: string, server: DevelopmentServer): string {
+  const clientPath = JSON.stringify(path.posix.join(server.config.base, CLIENT_PUBLIC_PATH))
+
+  const id = JSON.stringify(url)
+
+  return [
+    `import { createHotContext, updateStyle, removeStyle } from ${clientPath}`,
+    `import.meta.hot = createHotContext(${id})`,
+    `const css = ${JSON.stringify(css)}`,
+    `updateStyle(${id}, css)`,
+    `import.meta.hot.accept()`,
+    `import.meta.hot.prune(() => removeStyle(${id}))`,
+    `export default css`,
+  ].join('\n')
+}
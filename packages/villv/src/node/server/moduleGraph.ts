@@ -0,0 +1,472 @@
+import path from 'node:path'
+
+import type { ModuleInfo, PartialResolvedId } from 'rollup'
+
+import { CSS_LANGS_REGEX, FS_PREFIX } from '../constants.js'
+import {
+  cleanUrl,
+  isDirectRequest,
+  normalizePath,
+  removeImportQuery,
+  removeTimestampQuery,
+} from '../utils.js'
+
+import type { ModuleTransformInfo } from './plugin-container.js'
+import type { TransformResult } from './transformRequest.js'
+
+/**
+ * A module that's been requested by the browser (or the SSR loader),
+ * and its relationships with other modules.
+ */
+export class ModuleNode {
+  /**
+   * Public served url path, starts with /
+   */
+  url: string
+
+  /**
+   * Resolved file system path + query
+   */
+  id: string | null = null
+
+  /**
+   * Resolved file system path without the query.
+   */
+  file: string | null = null
+
+  /**
+   * Whether the module is served as JS or CSS.
+   */
+  type: 'js' | 'css'
+
+  /**
+   * Rollup's module info. Lazily created by the plugin container.
+   */
+  info?: ModuleInfo
+
+  /**
+   * Custom module meta, i.e. from the `resolveId`, `load` and `transform` hooks.
+   */
+  meta?: Record<string, unknown>
+
+  /**
+   * Modules that import this module.
+   */
+  importers = new Set<ModuleNode>()
+
+  /**
+   * Modules imported by this module in the browser.
+   */
+  clientImportedModules = new Set<ModuleNode>()
+
+  /**
+   * Modules imported by this module during SSR.
+   */
+  ssrImportedModules = new Set<ModuleNode>()
+
+  /**
+   * Dependencies whose updates are accepted by this module via `import.meta.hot.accept(deps)`.
+   */
+  acceptedHmrDeps = new Set<ModuleNode>()
+
+  /**
+   * Exports whose updates are accepted by this module via `import.meta.hot.acceptExports`.
+   */
+  acceptedHmrExports: Set<string> | null = null
+
+  /**
+   * The bindings that this module imports from each of its dependencies.
+   */
+  importedBindings: Map<string, Set<string>> | null = null
+
+  /**
+   * Whether this module accepts its own updates via `import.meta.hot.accept()`.
+   *
+   * Undefined if it hasn't been analyzed yet.
+   */
+  isSelfAccepting?: boolean
+
+  /**
+   * Cached result of the latest transform for the browser.
+   */
+  transformResult: TransformResult | null = null
+
+  /**
+   * Cached result of the latest transform for SSR.
+   */
+  ssrTransformResult: TransformResult | null = null
+
+  /**
+   * The intermediate results of the latest transform for the browser, served under `/__inspect`.
+   */
+  transformInfo?: ModuleTransformInfo
+
+  /**
+   * The intermediate results of the latest transform for SSR, served under `/__inspect`.
+   */
+  ssrTransformInfo?: ModuleTransformInfo
+
+  /**
+   * The last time this module was updated via HMR.
+   */
+  lastHMRTimestamp = 0
+
+  /**
+   * The last time this module was invalidated.
+   */
+  lastInvalidationTimestamp = 0
+
+  /**
+   * @param setIsSelfAccepting Set `false` to set {@link isSelfAccepting} later.
+   */
+  constructor(url: string, setIsSelfAccepting = true) {
+    this.url = url
+    this.type = CSS_LANGS_REGEX.test(url) && isDirectRequest(url) ? 'css' : 'js'
+
+    if (setIsSelfAccepting) {
+      this.isSelfAccepting = false
+    }
+  }
+
+  /**
+   * All modules imported by this module, in the browser or during SSR.
+   */
+  get importedModules(): Set<ModuleNode> {
+    return new Set([...this.clientImportedModules, ...this.ssrImportedModules])
+  }
+}
+
+/**
+ * Resolves a URL to an id, i.e. via the plugin container.
+ */
+export type ModuleGraphResolver = (url: string, ssr: boolean) => Promise<PartialResolvedId | null>
+
+/**
+ * Keeps track of every module served by the development server,
+ * and maps between their URLs, resolved ids, and files.
+ */
+export class ModuleGraph {
+  urlToModuleMap = new Map<string, ModuleNode>()
+
+  idToModuleMap = new Map<string, ModuleNode>()
+
+  /**
+   * A single file may correspond to multiple modules with different queries.
+   */
+  fileToModulesMap = new Map<string, Set<ModuleNode>>()
+
+  /**
+   * Files that have been imported by served modules.
+   * They're always allowed to be served, even if they're outside of `server.fs.allow`.
+   */
+  safeModulesPath = new Set<string>()
+
+  /**
+   * Quick path for raw URLs that have already been resolved.
+   */
+  private unresolvedUrlToModuleMap = new Map<string, ModuleNode | Promise<ModuleNode>>()
+
+  private ssrUnresolvedUrlToModuleMap = new Map<string, ModuleNode | Promise<ModuleNode>>()
+
+  constructor(private resolveId: ModuleGraphResolver) {}
+
+  async getModuleByUrl(rawUrl: string, ssr?: boolean): Promise<ModuleNode | undefined> {
+    // Quick path, if we already have a module for this rawUrl (even without extension)
+    rawUrl = removeImportQuery(removeTimestampQuery(rawUrl))
+
+    const mod = this.getUnresolvedUrlToModule(rawUrl, ssr)
+
+    if (mod) {
+      return mod
+    }
+
+    const [url] = await this.resolveUrl(rawUrl, ssr)
+
+    return this.urlToModuleMap.get(url)
+  }
+
+  getModuleById(id: string): ModuleNode | undefined {
+    return this.idToModuleMap.get(removeTimestampQuery(id))
+  }
+
+  getModulesByFile(file: string): Set<ModuleNode> | undefined {
+    return this.fileToModulesMap.get(file)
+  }
+
+  /**
+   * Invalidate every module created from a file that changed.
+   */
+  onFileChange(file: string): void {
+    const mods = this.getModulesByFile(file)
+
+    if (!mods) {
+      return
+    }
+
+    const seen = new Set<ModuleNode>()
+
+    mods.forEach((mod) => {
+      this.invalidateModule(mod, seen)
+    })
+  }
+
+  /**
+   * Clear a module's cached transform results, as well as the results of its importers
+   * that don't accept its updates.
+   */
+  invalidateModule(
+    mod: ModuleNode,
+    seen = new Set<ModuleNode>(),
+    timestamp = Date.now(),
+    isHmr = false,
+    hmrBoundaries: ModuleNode[] = [],
+  ): void {
+    if (seen.has(mod)) {
+      return
+    }
+
+    seen.add(mod)
+
+    if (isHmr) {
+      mod.lastHMRTimestamp = timestamp
+    } else {
+      // Save the timestamp for this invalidation, so we can avoid caching the result of
+      // possible already started processing being done for this module.
+      mod.lastInvalidationTimestamp = timestamp
+    }
+
+    // Don't invalidate mod.info and mod.meta, as they are part of the processing pipeline.
+    // Invalidating the transform result is enough to ensure this module is re-processed next time.
+    mod.transformResult = null
+    mod.ssrTransformResult = null
+    mod.transformInfo = undefined
+    mod.ssrTransformInfo = undefined
+
+    if (hmrBoundaries.includes(mod)) {
+      return
+    }
+
+    mod.importers.forEach((importer) => {
+      if (!importer.acceptedHmrDeps.has(mod)) {
+        this.invalidateModule(importer, seen, timestamp, isHmr)
+      }
+    })
+  }
+
+  invalidateAll(): void {
+    const timestamp = Date.now()
+
+    const seen = new Set<ModuleNode>()
+
+    this.idToModuleMap.forEach((mod) => {
+      this.invalidateModule(mod, seen, timestamp)
+    })
+  }
+
+  /**
+   * Update the module graph based on a module's updated imports information.
+   *
+   * @returns Dependencies that no longer have any importers.
+   */
+  async updateModuleInfo(
+    mod: ModuleNode,
+    importedModules: Set<string | ModuleNode>,
+    importedBindings: Map<string, Set<string>> | null,
+    acceptedModules: Set<string | ModuleNode>,
+    acceptedExports: Set<string> | null,
+    isSelfAccepting: boolean,
+    ssr?: boolean,
+  ): Promise<Set<ModuleNode> | undefined> {
+    mod.isSelfAccepting = isSelfAccepting
+
+    const previousImports = ssr ? mod.ssrImportedModules : mod.clientImportedModules
+
+    const nextImports = new Set(
+      await Promise.all(
+        [...importedModules].map(async (imported) => {
+          const dep =
+            typeof imported === 'string' ? await this.ensureEntryFromUrl(imported, ssr) : imported
+
+          dep.importers.add(mod)
+
+          return dep
+        }),
+      ),
+    )
+
+    if (ssr) {
+      mod.ssrImportedModules = nextImports
+    } else {
+      mod.clientImportedModules = nextImports
+    }
+
+    let noLongerImported: Set<ModuleNode> | undefined
+
+    // Remove the importer from deps that were imported but no longer are.
+    previousImports.forEach((dep) => {
+      if (mod.clientImportedModules.has(dep) || mod.ssrImportedModules.has(dep)) {
+        return
+      }
+
+      dep.importers.delete(mod)
+
+      if (!dep.importers.size) {
+        ;(noLongerImported ??= new Set()).add(dep)
+      }
+    })
+
+    mod.acceptedHmrDeps = new Set(
+      await Promise.all(
+        [...acceptedModules].map((accepted) =>
+          typeof accepted === 'string' ? this.ensureEntryFromUrl(accepted, ssr) : accepted,
+        ),
+      ),
+    )
+
+    mod.acceptedHmrExports = acceptedExports
+
+    mod.importedBindings = importedBindings
+
+    return noLongerImported
+  }
+
+  /**
+   * Get the module for a URL, creating it if it doesn't exist yet.
+   */
+  async ensureEntryFromUrl(
+    rawUrl: string,
+    ssr?: boolean,
+    setIsSelfAccepting = true,
+    resolved?: PartialResolvedId,
+  ): Promise<ModuleNode> {
+    // Quick path, if we already have a module for this rawUrl (even without extension)
+    rawUrl = removeImportQuery(removeTimestampQuery(rawUrl))
+
+    const existing = this.getUnresolvedUrlToModule(rawUrl, ssr)
+
+    if (existing) {
+      return existing
+    }
+
+    const modPromise = (async () => {
+      const [url, resolvedId, meta] = await this.resolveUrl(rawUrl, ssr, resolved)
+
+      let mod = this.idToModuleMap.get(resolvedId)
+
+      if (!mod) {
+        mod = new ModuleNode(url, setIsSelfAccepting)
+
+        if (meta) {
+          mod.meta = meta
+        }
+
+        mod.id = resolvedId
+        mod.file = cleanUrl(resolvedId)
+
+        this.urlToModuleMap.set(url, mod)
+        this.idToModuleMap.set(resolvedId, mod)
+        this.addFileMappedModule(mod.file, mod)
+      } else if (!this.urlToModuleMap.has(url)) {
+        // Multiple urls can map to the same module and id,
+        // make sure we register the url to the existing module in that case.
+        this.urlToModuleMap.set(url, mod)
+      }
+
+      this.setUnresolvedUrlToModule(rawUrl, mod, ssr)
+
+      return mod
+    })()
+
+    // Also register the clean url to the module,
+    // so that we can short-circuit resolving the same url twice.
+    this.setUnresolvedUrlToModule(rawUrl, modPromise, ssr)
+
+    return modPromise
+  }
+
+  /**
+   * Some dependencies, like a CSS file referenced via @import, don't have their own url
+   * because they're inlined into the main CSS import. But they still need to be represented
+   * in the module graph so that they can trigger HMR in the importing module.
+   */
+  createFileOnlyEntry(file: string): ModuleNode {
+    file = normalizePath(file)
+
+    const url = `${FS_PREFIX}${file}`
+
+    const existing = [...(this.fileToModulesMap.get(file) ?? [])].find(
+      (mod) => mod.url === url || mod.id === file,
+    )
+
+    if (existing) {
+      return existing
+    }
+
+    const mod = new ModuleNode(url)
+
+    mod.file = file
+
+    this.addFileMappedModule(file, mod)
+
+    return mod
+  }
+
+  /**
+   * For incoming urls, it's important to:
+   *
+   * 1. Remove the HMR timestamp query (?t=xxxx) and the ?import query.
+   * 2. Resolve its extension so that urls with or without extension all map to the same module.
+   */
+  async resolveUrl(
+    url: string,
+    ssr?: boolean,
+    alreadyResolved?: PartialResolvedId,
+  ): Promise<[url: string, id: string, meta: Record<string, unknown> | undefined]> {
+    url = removeImportQuery(removeTimestampQuery(url))
+
+    const mod = await this.getUnresolvedUrlToModule(url, ssr)
+
+    if (mod?.id) {
+      return [mod.url, mod.id, mod.meta]
+    }
+
+    const resolved = alreadyResolved ?? (await this.resolveId(url, !!ssr))
+
+    const resolvedId = resolved?.id || url
+
+    if (url !== resolvedId && !url.includes('\0') && !url.startsWith(`virtual:`)) {
+      const extension = path.extname(cleanUrl(resolvedId))
+
+      const pathname = cleanUrl(url)
+
+      if (extension && !pathname.endsWith(extension)) {
+        url = pathname + extension + url.slice(pathname.length)
+      }
+    }
+
+    return [url, resolvedId, resolved?.meta ?? undefined]
+  }
+
+  private addFileMappedModule(file: string, mod: ModuleNode) {
+    let fileMappedModules = this.fileToModulesMap.get(file)
+
+    if (!fileMappedModules) {
+      fileMappedModules = new Set()
+      this.fileToModulesMap.set(file, fileMappedModules)
+    }
+
+    fileMappedModules.add(mod)
+  }
+
+  private getUnresolvedUrlToModule(url: string, ssr?: boolean) {
+    return (ssr ? this.ssrUnresolvedUrlToModuleMap : this.unresolvedUrlToModuleMap).get(url)
+  }
+
+  private setUnresolvedUrlToModule(
+    url: string,
+    mod: ModuleNode | Promise<ModuleNode>,
+    ssr?: boolean,
+  ) {
+    ;(ssr ? this.ssrUnresolvedUrlToModuleMap : this.unresolvedUrlToModuleMap).set(url, mod)
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * The following is modified based on source found in
+ * https://github.com/facebook/create-react-app
+ *
+ * MIT Licensed
+ * Copyright (c) 2015-present, Facebook, Inc.
+ * https://github.com/facebook/create-react-app/blob/master/LICENSE
+ */
+
+import { spawn } from 'node:child_process'
+
+import open from 'open'
+import colors from 'picocolors'
+
+import type { Logger } from '../logger.js'
+
+/**
+ * Open the URL in a browser.
+ *
+ * The browser is determined by {@link opt} if it's a string, otherwise by the `BROWSER` environment variable.
+ *
+ * - A value ending with `.js` is executed as a node script with the URL as the last argument.
+ * - `none` disables opening the browser.
+ * - Anything else is the name of the browser app, which receives the space separated `BROWSER_ARGS`.
+ * - If nothing is specified, the system's default browser is used.
+ */
+export function openBrowser(url: string, opt: string | true, logger: Logger): void {
+  // The browser executable to open.
+  // See https://github.com/sindresorhus/open#app for documentation.
+  const browser = typeof opt === 'string' ? opt : process.env['BROWSER'] || ''
+
+  if (browser.toLowerCase().endsWith('.js')) {
+    executeNodeScript(browser, url, logger)
+  } else if (browser.toLowerCase() !== 'none') {
+    const browserArgs = process.env['BROWSER_ARGS']?.split(' ') ?? []
+
+    startBrowserProcess(browser, browserArgs, url)
+  }
+}
+
+function executeNodeScript(scriptPath: string, url: string, logger: Logger): void {
+  const extraArgs = process.argv.slice(2)
+
+  const child = spawn(process.execPath, [scriptPath, ...extraArgs, url], {
+    stdio: 'inherit',
+  })
+
+  child.on('close', (code) => {
+    if (code !== 0) {
+      logger.error(
+        colors.red(
+          `\nThe script specified as BROWSER environment variable failed.\n\n${colors.cyan(
+            scriptPath,
+          )} exited with code ${code}.`,
+        ),
+        { error: null },
+      )
+    }
+  })
+}
+
+function startBrowserProcess(browser: string, browserArgs: string[], url: string): void {
+  // On OS X, if BROWSER has been set to "open", passing the string `open` to `open` won't work.
+  // Ignore it so that the system browser is used instead.
+  // https://github.com/facebook/create-react-app/pull/1690#issuecomment-283518768
+  const app =
+    browser && !(process.platform === 'darwin' && browser === 'open')
+      ? { name: browser, arguments: browserArgs }
+      : undefined
+
+  // Prevent an `unhandledRejection` error if the browser can't be opened.
+  open(url, { app }).catch(() => {})
+}
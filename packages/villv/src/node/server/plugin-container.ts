@@ -3,7 +3,7 @@ import path from 'node:path'
 
 import type { RawSourceMap, SourceMapInput } from '@ampproject/remapping'
 import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
-import acorn from 'acorn'
+import * as acorn from 'acorn'
 import type { FSWatcher } from 'chokidar'
 import MagicString from 'magic-string'
 import colors from 'picocolors'
@@ -23,19 +23,21 @@ import type {
   SourceDescription,
   SourceMap,
   TransformResult,
-  PluginContext as RollupPluginContext,
+  PluginCache,
+  PluginContext,
   ResolvedId,
   PartialNull,
   ModuleOptions,
   RollupLog,
   RollupError,
+  EmittedAsset,
   EmittedFile,
 } from 'rollup'
 
 import type { ResolvedConfig } from '../config.js'
-import { FS_PREFIX } from '../constants.js'
+import { EMITTED_ASSET_PREFIX, FS_PREFIX } from '../constants.js'
 import type { Plugin } from '../plugin.js'
-import { createPluginHookUtils } from '../plugins/index.js'
+import { createHookFilterMatcher, createPluginHookUtils } from '../plugins/index.js'
 import {
   cleanUrl,
   combineSourceMaps,
@@ -43,61 +45,19 @@ import {
   ensureWatchedFile,
   formatUrl,
   generateCodeFrame,
+  getHash,
   isExternalUrl,
   isObject,
   normalizePath,
   numberToPosition,
-  pad,
   timeFrom,
   toArray,
   unwrapId,
 } from '../utils.js'
 
-function cleanStack(stack: string) {
-  return stack
-    .split(/\n/g)
-    .filter((l) => /^\s*at/.test(l))
-    .join('\n')
-}
-
-/**
- * TODO: this was in src/node/middlewares/error.ts
- */
-export function buildErrorMessage(
-  err: RollupError,
-  args: string[] = [],
-  includeStack = true,
-): string {
-  const errorMessageLines = [...args]
-
-  if (err.plugin) {
-    errorMessageLines.push(`  Plugin: ${colors.magenta(err.plugin)}`)
-  }
-
-  const loc = err.loc ? `:${err.loc.line}:${err.loc.column}` : ''
-
-  if (err.id) {
-    errorMessageLines.push(`  File: ${colors.cyan(err.id)}${loc}`)
-  }
-
-  if (err.frame) {
-    errorMessageLines.push(colors.yellow(pad(err.frame)))
-  }
-
-  if (includeStack && err.stack) {
-    errorMessageLines.push(pad(cleanStack(err.stack)))
-  }
-
-  return errorMessageLines.join('\n')
-}
-
-type PluginContext = Omit<
-  RollupPluginContext,
-  // not documented
-  | 'cache'
-  // deprecated
-  | 'moduleIds'
->
+import { buildErrorMessage } from './middlewares/error.js'
+import type { ModuleGraph } from './moduleGraph.js'
+import { createTransformCache } from './transformCache.js'
 
 /**
  * Idk what a plugin container is.
@@ -127,15 +87,139 @@ export interface PluginContainer {
 
   /**
    */
-  transform: (code: string, id: string, options?: TransformOptions) => Promise<unknown>
+  transform: (
+    code: string,
+    id: string,
+    options?: TransformOptions,
+  ) => Promise<{ code: string; map: SourceMap | null }>
 
   /**
    */
   load: (id: string, options?: LoadOptions) => Promise<LoadResult | null>
 
+  /**
+   * Get an asset that a plugin emitted via `this.emitFile`, by the URL it's served from.
+   */
+  getEmittedAsset: (url: string) => DevelopmentAsset | undefined
+
+  /**
+   * Get the call counts and cumulative time of each plugin's measured hooks.
+   */
+  getPluginMetrics: () => PluginMetrics[]
+
   close: () => Promise<void>
 }
 
+/**
+ * An asset emitted by a plugin during development, kept in memory and served by the development server.
+ */
+export interface DevelopmentAsset {
+  /**
+   * The reference ID returned by `this.emitFile`.
+   */
+  referenceId: string
+
+  /**
+   * The file name, either the one requested by the plugin or one derived from the asset's name.
+   */
+  fileName: string
+
+  /**
+   * The URL that the asset is served from, which is also returned by `this.getFileName`.
+   */
+  url: string
+
+  /**
+   * The asset's content, which may be set later via `this.setAssetSource`.
+   */
+  source?: string | Uint8Array
+}
+
+/**
+ * Plugin hooks whose calls are counted and timed by the plugin container.
+ */
+export type MeasuredPluginHook = 'resolveId' | 'load' | 'transform'
+
+/**
+ * The calls of a single plugin hook.
+ */
+export interface PluginHookMetrics {
+  /**
+   * How many times the hook was called.
+   */
+  calls: number
+
+  /**
+   * The cumulative time spent in the hook, in milliseconds.
+   */
+  time: number
+
+  /**
+   * How many times a cached result was reused instead of calling the hook.
+   */
+  cacheHits: number
+}
+
+/**
+ * The calls of a plugin's measured hooks.
+ */
+export interface PluginMetrics {
+  /**
+   * The plugin's name.
+   */
+  name: string
+
+  /**
+   * Metrics for each measured hook that the plugin implements and that has been called.
+   */
+  hooks: Partial<Record<MeasuredPluginHook, PluginHookMetrics>>
+}
+
+/**
+ * The result of a single plugin's transform hook.
+ */
+export interface TransformStep {
+  /**
+   * The plugin's name.
+   */
+  plugin: string
+
+  /**
+   * The code returned by the plugin.
+   */
+  code: string
+
+  /**
+   * The time spent in the hook, in milliseconds.
+   */
+  time: number
+}
+
+/**
+ * The intermediate results of transforming a module.
+ */
+export interface ModuleTransformInfo {
+  /**
+   * The module ID.
+   */
+  id: string
+
+  /**
+   * Whether the module was transformed for SSR.
+   */
+  ssr: boolean
+
+  /**
+   * The code before any plugin transformed it.
+   */
+  source: string
+
+  /**
+   * The result of each plugin that transformed the module, in order.
+   */
+  steps: TransformStep[]
+}
+
 /**
  * Options for {@link PluginContainer.resolveId}.
  */
@@ -198,10 +282,6 @@ export interface LoadOptions {
 
 export let parser = acorn.Parser
 
-interface ModuleGraph {
-  hello: ''
-}
-
 export async function createPluginContainer(
   config: ResolvedConfig,
   moduleGraph?: ModuleGraph,
@@ -216,8 +296,12 @@ export async function createPluginContainer(
 
   const { getSortedPluginHooks, getSortedPlugins } = createPluginHookUtils(plugins)
 
+  const matchesHookFilter = createHookFilterMatcher(root)
+
   const processesing = new Set<Promise<unknown>>()
 
+  let closed = false
+
   const seenResolves: Record<string, true | undefined> = {}
 
   const debugResolve = createDebugger('vite:resolve')
@@ -230,6 +314,8 @@ export async function createPluginContainer(
     onlyWhenFocused: 'vite:plugin',
   })
 
+  const debugTransformCache = createDebugger('vite:transform-cache')
+
   const debugSourcemapCombineFilter = process.env['DEBUG_VITE_SOURCEMAP_COMBINE_FILTER']
 
   const debugSourcemapCombine = createDebugger('vite:sourcemap-combine', {
@@ -261,6 +347,136 @@ export async function createPluginContainer(
 
   const watchFiles = new Set<string>()
 
+  // Map from plugin name to the metrics of its measured hooks.
+  const pluginMetrics = new Map<string, PluginMetrics>()
+
+  // Whether to keep the intermediate transform results on the module graph for `/__inspect`.
+  const retainTransforms = !!config.server.inspect
+
+  /**
+   * Count a call to a plugin hook that started at the given time.
+   *
+   * @returns The time spent in the hook, in milliseconds.
+   */
+  function recordHookCall(plugin: Plugin, hookName: MeasuredPluginHook, start: number): number {
+    const time = performance.now() - start
+
+    const hookMetrics = getHookMetrics(plugin, hookName)
+
+    hookMetrics.calls++
+    hookMetrics.time += time
+
+    return time
+  }
+
+  /**
+   * Count a cached result of a plugin hook that was reused instead of calling the hook.
+   */
+  function recordCacheHit(plugin: Plugin, hookName: MeasuredPluginHook): void {
+    getHookMetrics(plugin, hookName).cacheHits++
+  }
+
+  function getHookMetrics(plugin: Plugin, hookName: MeasuredPluginHook): PluginHookMetrics {
+    let metrics = pluginMetrics.get(plugin.name)
+
+    if (!metrics) {
+      metrics = { name: plugin.name, hooks: {} }
+      pluginMetrics.set(plugin.name, metrics)
+    }
+
+    return (metrics.hooks[hookName] ??= { calls: 0, time: 0, cacheHits: 0 })
+  }
+
+  // Transform results are only cached for the development server, which provides a module graph.
+  const transformCache = moduleGraph ? createTransformCache(config) : undefined
+
+  // Map from reference ID to the assets emitted by plugins.
+  const emittedAssets = new Map<string, DevelopmentAsset>()
+
+  // Map from URL to the assets emitted by plugins.
+  const urlToEmittedAsset = new Map<string, DevelopmentAsset>()
+
+  // Map from plugin name to the entries of its `this.cache`, which are kept until the server closes.
+  const pluginCaches = new Map<string, Map<string, unknown>>()
+
+  // Map from module to the reference IDs of the assets emitted while loading or transforming it.
+  // They're evicted when the module is loaded again, which emits the assets its new code references.
+  const moduleEmittedAssets = new Map<string, Set<string>>()
+
+  let emittedAssetCount = 0
+
+  /**
+   * Store an emitted asset under a new reference ID.
+   *
+   * An asset with an explicit file name replaces the previous asset with the same file name.
+   * Otherwise, the file name is derived from the asset's name and content.
+   *
+   * @param moduleKey The module that's being loaded or transformed, if any.
+   */
+  function emitAsset({ name, fileName, source }: EmittedAsset, moduleKey?: string): string {
+    const existing = fileName ? urlToEmittedAsset.get(getEmittedAssetUrl(fileName)) : undefined
+
+    if (existing) {
+      existing.source = source ?? existing.source
+      return existing.referenceId
+    }
+
+    const referenceId = getHash(`${emittedAssetCount++}\0${name ?? fileName ?? ''}`)
+
+    const extension = path.extname(name ?? '')
+
+    // Assets with the same content share a URL, others get a unique one.
+    const hash = source == null ? referenceId : getHash(Buffer.from(source))
+
+    const resolvedFileName =
+      fileName ?? `assets/${path.basename(name ?? 'asset', extension)}-${hash}${extension}`
+
+    const asset: DevelopmentAsset = {
+      referenceId,
+      fileName: resolvedFileName,
+      url: getEmittedAssetUrl(resolvedFileName),
+      source,
+    }
+
+    emittedAssets.set(referenceId, asset)
+    urlToEmittedAsset.set(asset.url, asset)
+
+    if (moduleKey) {
+      let referenceIds = moduleEmittedAssets.get(moduleKey)
+
+      if (!referenceIds) {
+        referenceIds = new Set()
+        moduleEmittedAssets.set(moduleKey, referenceIds)
+      }
+
+      referenceIds.add(referenceId)
+    }
+
+    return referenceId
+  }
+
+  function getEmittedAssetUrl(fileName: string): string {
+    return path.posix.join(config.base, EMITTED_ASSET_PREFIX, normalizePath(fileName))
+  }
+
+  /**
+   * Remove the assets emitted the last time a module was processed.
+   */
+  function evictEmittedAssets(moduleKey: string): void {
+    moduleEmittedAssets.get(moduleKey)?.forEach((referenceId) => {
+      const asset = emittedAssets.get(referenceId)
+
+      emittedAssets.delete(referenceId)
+
+      // Another asset with the same content may be served from the same URL.
+      if (asset && urlToEmittedAsset.get(asset.url) === asset) {
+        urlToEmittedAsset.delete(asset.url)
+      }
+    })
+
+    moduleEmittedAssets.delete(moduleKey)
+  }
+
   const minimalContext: MinimalPluginContext = {
     meta: {
       rollupVersion,
@@ -286,7 +502,9 @@ export async function createPluginContainer(
     }
 
     if (options.acornInjectPlugins) {
-      parser = acorn.Parser.extend(...toArray(options.acornInjectPlugins))
+      parser = acorn.Parser.extend(
+        ...(toArray(options.acornInjectPlugins) as Parameters<typeof acorn.Parser.extend>),
+      )
     }
 
     return {
@@ -315,12 +533,22 @@ export async function createPluginContainer(
       /* eslint-disable-next-line @typescript-eslint/ban-types */
       const handler: Function = 'handler' in hook ? hook.handler : hook
 
+      const callHook = async () => {
+        const ctx = context(plugin)
+
+        try {
+          await handler.apply(ctx, args(plugin))
+        } catch (e) {
+          throw ctx instanceof Context ? formatError(e as RollupError, undefined, ctx) : e
+        }
+      }
+
       if ((hook as { sequential?: boolean }).sequential) {
         await Promise.all(parallelPromises)
         parallelPromises.length = 0
-        await handler.apply(context(plugin), args(plugin))
+        await callHook()
       } else {
-        parallelPromises.push(handler.apply(context(plugin), args(plugin)))
+        parallelPromises.push(callHook())
       }
     }
     await Promise.all(parallelPromises)
@@ -381,6 +609,8 @@ export async function createPluginContainer(
     _activeCode: string | null = null
     _resolveSkips?: Set<Plugin>
     _addedImports: Set<string> | null = null
+    // Whether the active hook did something that a cached result can't repeat, e.g. emit a file.
+    _hasSideEffects = false
 
     constructor(initialPlugin?: Plugin) {
       this._activePlugin = initialPlugin || null
@@ -457,7 +687,33 @@ export async function createPluginContainer(
       return moduleGraph ? moduleGraph.idToModuleMap.keys() : Array.prototype[Symbol.iterator]()
     }
 
+    /**
+     * @deprecated Use {@link getModuleIds} instead.
+     */
+    get moduleIds() {
+      return this.getModuleIds()
+    }
+
+    get cache(): PluginCache {
+      const name = this._activePlugin?.name ?? ''
+
+      const entries = pluginCaches.get(name) ?? new Map<string, unknown>()
+
+      pluginCaches.set(name, entries)
+
+      return {
+        delete: (id) => entries.delete(id),
+        get: <T>(id: string) => entries.get(id) as T,
+        has: (id) => entries.has(id),
+        set: (id, value) => {
+          this._hasSideEffects = true
+          entries.set(id, value)
+        },
+      }
+    }
+
     addWatchFile(id: string) {
+      this._hasSideEffects = true
       watchFiles.add(id)
       ;(this._addedImports || (this._addedImports = new Set())).add(id)
       if (watcher) ensureWatchedFile(watcher, id, root)
@@ -467,24 +723,48 @@ export async function createPluginContainer(
       return [...watchFiles]
     }
 
-    emitFile(_assetOrFile: EmittedFile) {
-      warnIncompatibleMethod(`emitFile`, this._activePlugin!.name)
-      return ''
+    emitFile(assetOrFile: EmittedFile) {
+      // Chunks need to be bundled, which doesn't happen during development.
+      if (assetOrFile.type !== 'asset') {
+        warnIncompatibleMethod(`emitFile`, this._activePlugin!.name)
+        return ''
+      }
+
+      this._hasSideEffects = true
+
+      return emitAsset(
+        assetOrFile,
+        this._activeId ? getModuleKey(this._activeId, this.ssr) : undefined,
+      )
     }
 
-    setAssetSource() {
-      warnIncompatibleMethod(`setAssetSource`, this._activePlugin!.name)
+    setAssetSource(referenceId: string, source: string | Uint8Array) {
+      const asset = emittedAssets.get(referenceId)
+
+      if (!asset) {
+        this.error(`Unable to set the source for unknown asset "${referenceId}".`)
+      }
+
+      this._hasSideEffects = true
+
+      asset.source = source
     }
 
-    getFileName() {
-      warnIncompatibleMethod(`getFileName`, this._activePlugin!.name)
-      return ''
+    getFileName(referenceId: string) {
+      const asset = emittedAssets.get(referenceId)
+
+      if (!asset) {
+        this.error(`Unable to get the file name for unknown asset "${referenceId}".`)
+      }
+
+      return asset.url
     }
 
     warn(
       e: string | RollupLog | (() => string | RollupLog),
       position?: number | { column: number; line: number },
     ) {
+      this._hasSideEffects = true
       const err = formatError(typeof e === 'function' ? e() : e, position, this)
       const msg = buildErrorMessage(err, [colors.yellow(`warning: ${err.message}`)], false)
       logger.warn(msg, {
@@ -635,6 +915,14 @@ export async function createPluginContainer(
 
     getModuleInfo,
 
+    getEmittedAsset(url) {
+      return urlToEmittedAsset.get(url)
+    },
+
+    getPluginMetrics() {
+      return [...pluginMetrics.values()]
+    },
+
     async buildStart() {
       await handleHookPromise(
         hookParallel(
@@ -665,22 +953,31 @@ export async function createPluginContainer(
         if (closed && !ssr) throwClosedServerError()
         if (!plugin.resolveId) continue
         if (skip?.has(plugin)) continue
+        if (!matchesHookFilter(plugin.resolveId, rawId)) continue
 
         ctx._activePlugin = plugin
 
-        const pluginResolveStart = debugPluginResolve ? performance.now() : 0
+        const pluginResolveStart = performance.now()
 
         const handler = 'handler' in plugin.resolveId ? plugin.resolveId.handler : plugin.resolveId
 
-        const result = await handleHookPromise(
-          handler.call(ctx, rawId, importer, {
-            assertions: options?.assertions ?? {},
-            custom: options?.custom,
-            isEntry: !!options?.isEntry,
-            ssr,
-            scan,
-          }),
-        )
+        let result: Awaited<ReturnType<typeof handler>>
+
+        try {
+          result = await handleHookPromise(
+            handler.call(ctx, rawId, importer, {
+              assertions: options?.assertions ?? {},
+              custom: options?.custom,
+              isEntry: !!options?.isEntry,
+              ssr,
+              scan,
+            }),
+          )
+        } catch (e) {
+          ctx.error(e as RollupError)
+        }
+
+        recordHookCall(plugin, 'resolveId', pluginResolveStart)
 
         if (!result) {
           continue
@@ -724,22 +1021,36 @@ export async function createPluginContainer(
 
       ctx.ssr = !!ssr
 
+      evictEmittedAssets(getModuleKey(id, !!ssr))
+
       for (const plugin of getSortedPlugins('load')) {
         if (closed && !ssr) {
           throwClosedServerError()
         }
 
-        if (!plugin.load) {
+        if (!plugin.load || !matchesHookFilter(plugin.load, id)) {
           continue
         }
 
         ctx._activePlugin = plugin
+        ctx._activeId = id
+
+        const pluginLoadStart = performance.now()
 
         const handler = 'handler' in plugin.load ? plugin.load.handler : plugin.load
-        const result = await handleHookPromise(handler.call(ctx, id, { ssr }))
+
+        let result: Awaited<ReturnType<typeof handler>>
+
+        try {
+          result = await handleHookPromise(handler.call(ctx, id, { ssr }))
+        } catch (e) {
+          ctx.error(e as RollupError)
+        }
+
+        recordHookCall(plugin, 'load', pluginLoadStart)
 
         if (result != null) {
-          if (isObject(result)) {
+          if (typeof result === 'object') {
             updateModuleInfo(id, result)
           }
           return result
@@ -755,12 +1066,26 @@ export async function createPluginContainer(
 
       ctx.ssr = !!ssr
 
+      const mod = retainTransforms ? moduleGraph?.getModuleById(id) : undefined
+
+      const transformInfo: ModuleTransformInfo | undefined = mod
+        ? { id, ssr: !!ssr, source: code, steps: [] }
+        : undefined
+
+      if (mod) {
+        if (ssr) {
+          mod.ssrTransformInfo = transformInfo
+        } else {
+          mod.transformInfo = transformInfo
+        }
+      }
+
       for (const plugin of getSortedPlugins('transform')) {
         if (closed && !ssr) {
           throwClosedServerError()
         }
 
-        if (!plugin.transform) {
+        if (!plugin.transform || !matchesHookFilter(plugin.transform, id, code)) {
           continue
         }
 
@@ -768,18 +1093,58 @@ export async function createPluginContainer(
         ctx._activeId = id
         ctx._activeCode = code
 
-        const start = debugPluginTransform ? performance.now() : 0
+        const cache =
+          'handler' in plugin.transform && plugin.transform.cache === false
+            ? undefined
+            : transformCache
+
+        const cached = await cache?.get(plugin, id, code, !!ssr)
+
+        if (cached !== undefined) {
+          recordCacheHit(plugin, 'transform')
+
+          if (cached?.code != null) {
+            code = cached.code
+
+            if (cached.map) {
+              ctx.sourcemapChain.push(cached.map)
+            }
+
+            transformInfo?.steps.push({ plugin: plugin.name, code, time: 0 })
+          }
+
+          if (cached?.meta) {
+            updateModuleInfo(id, { meta: cached.meta })
+          }
+
+          continue
+        }
 
         let result: TransformResult | string | undefined
 
         const handler = 'handler' in plugin.transform ? plugin.transform.handler : plugin.transform
 
+        const start = performance.now()
+
+        ctx._hasSideEffects = false
+
         try {
           result = await handleHookPromise(handler.call(ctx, code, id, { ssr }))
         } catch (e) {
           ctx.error(e as RollupError)
         }
 
+        const time = recordHookCall(plugin, 'transform', start)
+
+        // The side effects wouldn't happen again if the result was reused.
+        if (cache && !ctx._hasSideEffects) {
+          handleHookPromise(
+            cache.set(plugin, id, code, !!ssr, result).catch((e) => {
+              debugTransformCache?.(`failed to cache ${id}: ${(e as Error).message}`)
+            }),
+          )
+        }
+
         if (!result) {
           continue
         }
@@ -803,6 +1168,8 @@ export async function createPluginContainer(
         } else {
           code = result
         }
+
+        transformInfo?.steps.push({ plugin: plugin.name, code, time })
       }
 
       return {
@@ -920,6 +1287,13 @@ export async function createPluginContainer(
 
 const noop = () => {}
 
+/**
+ * Identify a module that's processed by the container, since SSR and client modules are separate.
+ */
+function getModuleKey(id: string, ssr: boolean): string {
+  return ssr ? `ssr:${id}` : id
+}
+
 export const ERR_CLOSED_SERVER = 'ERR_CLOSED_SERVER'
 
 interface ExtendedError extends Error {
@@ -0,0 +1,188 @@
+import colors from 'picocolors'
+
+import type { PreviewServer } from '../preview.js'
+
+import { openBrowser } from './openBrowser.js'
+
+import type { DevelopmentServer } from './index.js'
+
+export interface BindShortcutsOptions<Server = DevelopmentServer | PreviewServer> {
+  /**
+   * Print a one-line hint to press 'h' for help.
+   */
+  print?: boolean
+
+  /**
+   * Custom shortcuts to run when a key is pressed.
+   *
+   * These take priority over the default shortcuts if they have the same key.
+   */
+  customShortcuts?: (CLIShortcut<Server> | undefined | null)[]
+}
+
+export interface CLIShortcut<Server = DevelopmentServer | PreviewServer> {
+  /**
+   * The key to press.
+   */
+  key: string
+
+  /**
+   * Description that's shown in the help message.
+   */
+  description: string
+
+  /**
+   * What to do when the key is pressed.
+   */
+  action(server: Server): void | Promise<void>
+}
+
+/**
+ * Listen for key presses in an interactive terminal and run the matching shortcut.
+ *
+ * Does nothing in middleware mode, non-interactive terminals, or CI.
+ */
+export function bindShortcuts<Server extends DevelopmentServer | PreviewServer>(
+  server: Server,
+  options?: BindShortcutsOptions<Server>,
+): void {
+  if (!server.httpServer || !process.stdin.isTTY || process.env['CI']) {
+    return
+  }
+
+  const isDev = isDevServer(server)
+
+  if (isDev) {
+    server._shortcutsOptions = options as BindShortcutsOptions<DevelopmentServer>
+  }
+
+  if (options?.print) {
+    server.config.logger.info(
+      colors.dim(colors.green('  ➜')) +
+        colors.dim('  press ') +
+        colors.bold('h') +
+        colors.dim(' to show help'),
+    )
+  }
+
+  const shortcuts = (options?.customShortcuts ?? [])
+    .filter((shortcut): shortcut is CLIShortcut<Server> => shortcut != null)
+    .concat((isDev ? BASE_DEV_SHORTCUTS : BASE_PREVIEW_SHORTCUTS) as CLIShortcut<Server>[])
+
+  let actionRunning = false
+
+  const onInput = async (input: string) => {
+    // ctrl+c or ctrl+d
+    if (input === '\x03' || input === '\x04') {
+      try {
+        if (isDevServer(server)) {
+          await server.close()
+        } else {
+          server.httpServer?.close()
+        }
+      } finally {
+        process.exit(1)
+      }
+    }
+
+    if (actionRunning) {
+      return
+    }
+
+    if (input === 'h') {
+      server.config.logger.info(
+        [
+          '',
+          colors.bold('  Shortcuts'),
+          ...shortcuts.map(
+            (shortcut) =>
+              colors.dim('  press ') +
+              colors.bold(shortcut.key) +
+              colors.dim(` to ${shortcut.description}`),
+          ),
+        ].join('\n'),
+      )
+    }
+
+    const shortcut = shortcuts.find((shortcut) => shortcut.key === input)
+
+    if (!shortcut) {
+      return
+    }
+
+    actionRunning = true
+
+    await shortcut.action(server)
+
+    actionRunning = false
+  }
+
+  process.stdin.setRawMode(true)
+
+  process.stdin.on('data', onInput).setEncoding('utf8').resume()
+
+  server.httpServer.on('close', () => {
+    process.stdin.off('data', onInput).pause()
+  })
+}
+
+function isDevServer(server: DevelopmentServer | PreviewServer): server is DevelopmentServer {
+  return 'pluginContainer' in server
+}
+
+const BASE_DEV_SHORTCUTS: CLIShortcut<DevelopmentServer>[] = [
+  {
+    key: 'r',
+    description: 'restart the server',
+    async action(server) {
+      await server.restart()
+    },
+  },
+  {
+    key: 'u',
+    description: 'show server url',
+    action(server) {
+      server.config.logger.info('')
+      server.printUrls()
+    },
+  },
+  {
+    key: 'o',
+    description: 'open in browser',
+    action(server) {
+      server.openBrowser()
+    },
+  },
+  {
+    key: 'q',
+    description: 'quit',
+    async action(server) {
+      await server.close().finally(() => process.exit())
+    },
+  },
+]
+
+const BASE_PREVIEW_SHORTCUTS: CLIShortcut<PreviewServer>[] = [
+  {
+    key: 'o',
+    description: 'open in browser',
+    action(server) {
+      const url = server.resolvedUrls.local[0] ?? server.resolvedUrls.network[0]
+
+      if (url) {
+        openBrowser(url, true, server.config.logger)
+      }
+    },
+  },
+  {
+    key: 'q',
+    description: 'quit',
+    action(server) {
+      try {
+        server.httpServer.close()
+      } finally {
+        process.exit()
+      }
+    },
+  },
+]
@@ -0,0 +1,261 @@
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+
+import type { SourceMapInput, TransformResult } from 'rollup'
+
+import type { ResolvedConfig } from '../config.js'
+import { VERSION } from '../constants.js'
+import type { Plugin } from '../plugin.js'
+import { createDebugger, getHash } from '../utils.js'
+
+const debug = createDebugger('vite:transform-cache')
+
+/**
+ * A persistent cache of the results of plugins' transform hooks, stored under `cacheDir`.
+ *
+ * Each result is keyed by the plugin, the module ID and the hash of the code the plugin received,
+ * and is only reused while the transform plugins and the config options that affect them
+ * stay the same.
+ *
+ * The entries for each combination of plugins and config are stored in their own directory,
+ * and the directories of previous combinations are removed when the cache is created.
+ * Within a directory, there's one entry per plugin and module, which is replaced when the
+ * module's code changes.
+ */
+export interface TransformCache {
+  /**
+   * Get the cached result of a plugin transforming some code.
+   *
+   * @returns The cached result, null if the plugin didn't transform the code,
+   * or undefined if there's no cached result.
+   */
+  get(plugin: Plugin, id: string, code: string, ssr: boolean): Promise<CachedTransform | undefined>
+
+  /**
+   * Store the result of a plugin transforming some code.
+   */
+  set(
+    plugin: Plugin,
+    id: string,
+    code: string,
+    ssr: boolean,
+    result: TransformResult | string | undefined,
+  ): Promise<void>
+}
+
+/**
+ * The cached result of a plugin's transform hook, or null if it didn't transform the code.
+ */
+export type CachedTransform = {
+  code: string | null
+  map: SourceMapInput | null
+  meta: Record<string, unknown> | null
+} | null
+
+/**
+ * A cache entry, which includes its key to detect stale entries and hash collisions.
+ */
+interface TransformCacheEntry {
+  plugin: string
+  id: string
+  ssr: boolean
+  sourceHash: string
+  result: CachedTransform
+}
+
+/**
+ * Top-level config properties that may affect the result of a transform.
+ *
+ * Runtime options, e.g. `server` and `preview`, are left out, so that starting the server
+ * on another port doesn't invalidate the cache. The plugins are hashed separately.
+ */
+const hashedConfigKeys = [
+  'root',
+  'base',
+  'mode',
+  'isProduction',
+  'env',
+  'define',
+  'resolve',
+  'css',
+  'json',
+  'esbuild',
+  'ssr',
+  'experimental',
+] satisfies (keyof ResolvedConfig)[]
+
+/**
+ * Create the transform cache of the development server.
+ */
+export function createTransformCache(config: ResolvedConfig): TransformCache {
+  const transformsDir = path.join(config.cacheDir, 'transforms')
+
+  const cacheDir = path.join(transformsDir, `${getConfigHash(config)}-${getPluginsHash(config)}`)
+
+  pruneStaleCaches(transformsDir, cacheDir).catch((e) => {
+    debug?.(`failed to prune ${transformsDir}: ${(e as Error).message}`)
+  })
+
+  // The names of the entries in the cache directory, so that misses don't read from the disk.
+  const entryNames = fsp
+    .readdir(cacheDir)
+    .then((names) => new Set(names))
+    .catch(() => new Set<string>())
+
+  let cacheDirCreated = false
+
+  function getEntryKey(plugin: Plugin, id: string, code: string, ssr: boolean) {
+    const entry = {
+      plugin: plugin.name,
+      id,
+      ssr,
+      sourceHash: getHash(code),
+    }
+
+    // The code isn't part of the file name, so that a module's new result replaces the stale one.
+    const name = `${getHash(`${plugin.name}\0${id}\0${ssr}`)}.json`
+
+    return { entry, name, file: path.join(cacheDir, name) }
+  }
+
+  return {
+    async get(plugin, id, code, ssr) {
+      const { entry, name, file } = getEntryKey(plugin, id, code, ssr)
+
+      if (!(await entryNames).has(name)) {
+        return
+      }
+
+      let cached: TransformCacheEntry
+
+      try {
+        cached = JSON.parse(await fsp.readFile(file, 'utf-8'))
+      } catch {
+        return
+      }
+
+      const isSameEntry = (Object.keys(entry) as (keyof typeof entry)[]).every(
+        (key) => cached[key] === entry[key],
+      )
+
+      return isSameEntry ? cached.result : undefined
+    },
+
+    async set(plugin, id, code, ssr, result) {
+      const { entry, name, file } = getEntryKey(plugin, id, code, ssr)
+
+      const cached: TransformCacheEntry = {
+        ...entry,
+        result: toCachedTransform(result),
+      }
+
+      if (!cacheDirCreated) {
+        await fsp.mkdir(cacheDir, { recursive: true })
+        cacheDirCreated = true
+      }
+
+      await fsp.writeFile(file, JSON.stringify(cached))
+      ;(await entryNames).add(name)
+    },
+  }
+}
+
+function toCachedTransform(result: TransformResult | string | undefined): CachedTransform {
+  if (!result) {
+    return null
+  }
+
+  if (typeof result === 'string') {
+    return { code: result, map: null, meta: null }
+  }
+
+  return {
+    code: result.code ?? null,
+    map: (result.map as SourceMapInput | undefined) ?? null,
+    meta: result.meta ?? null,
+  }
+}
+
+/**
+ * Remove the caches of previous plugins and configs, which are never reused.
+ */
+async function pruneStaleCaches(transformsDir: string, cacheDir: string): Promise<void> {
+  const entries = await fsp.readdir(transformsDir, { withFileTypes: true }).catch(() => [])
+
+  await Promise.all(
+    entries
+      .filter((entry) => path.join(transformsDir, entry.name) !== cacheDir)
+      .map((entry) =>
+        fsp.rm(path.join(transformsDir, entry.name), { recursive: true, force: true }),
+      ),
+  )
+}
+
+/**
+ * Hash the config options that affect transforms, and the content of the config file
+ * and its dependencies, since the options that plugins are created with can't be serialized.
+ */
+function getConfigHash(config: ResolvedConfig): string {
+  const seen = new WeakSet<object>()
+
+  const hashedConfig = Object.fromEntries(hashedConfigKeys.map((key) => [key, config[key]]))
+
+  const serializedConfig = JSON.stringify(
+    { version: VERSION, config: hashedConfig },
+    (_key, value: unknown) => {
+      if (typeof value === 'function' || value instanceof RegExp) {
+        return value.toString()
+      }
+
+      if (value instanceof Set || value instanceof Map) {
+        return [...value]
+      }
+
+      if (typeof value === 'object' && value !== null) {
+        const prototype = Object.getPrototypeOf(value)
+
+        // Only plain data is hashed, not class instances.
+        if (prototype !== Object.prototype && prototype !== Array.prototype && prototype !== null) {
+          return value.constructor.name
+        }
+
+        if (seen.has(value)) {
+          return '[Circular]'
+        }
+
+        seen.add(value)
+      }
+
+      return value
+    },
+  )
+
+  const configFiles = new Set([
+    ...(config.configFile ? [config.configFile] : []),
+    ...config.configFileDependencies,
+  ])
+
+  const configFileContents = [...configFiles].map((file) => {
+    try {
+      return fs.readFileSync(file, 'utf-8')
+    } catch {
+      return ''
+    }
+  })
+
+  return getHash([serializedConfig, ...configFileContents].join('\0'))
+}
+
+/**
+ * Hash the transform plugins, so the cache is invalidated when one is added, removed, reordered,
+ * updated or reconfigured, i.e. its `version` or `cacheKey` changes.
+ */
+function getPluginsHash(config: ResolvedConfig): string {
+  return getHash(
+    config.plugins
+      .filter((plugin) => plugin.transform)
+      .map((plugin) => `${plugin.name}@${plugin.version ?? ''}:${plugin.cacheKey ?? ''}`)
+      .join('\0'),
+  )
+}
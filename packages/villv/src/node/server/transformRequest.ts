@@ -0,0 +1,178 @@
+import fs from 'node:fs/promises'
+
+import type { SourceDescription } from 'rollup'
+
+import { CSS_LANGS_REGEX } from '../constants.js'
+import {
+  cleanUrl,
+  createDebugger,
+  ensureWatchedFile,
+  formatUrl,
+  removeTimestampQuery,
+  timeFrom,
+} from '../utils.js'
+
+import { analyzeImports } from './importAnalysis.js'
+import { isFileServingAllowed } from './middlewares/static.js'
+import { throwClosedServerError } from './plugin-container.js'
+
+import type { DevelopmentServer } from './index.js'
+
+export const ERR_LOAD_URL = 'ERR_LOAD_URL'
+
+const debugLoad = createDebugger('vite:load')
+
+const debugTransform = createDebugger('vite:transform')
+
+const debugCache = createDebugger('vite:cache')
+
+/**
+ * The code and sourcemap produced after running a module through the plugin container.
+ */
+export interface TransformResult {
+  code: string
+  map: SourceDescription['map'] | null
+}
+
+/**
+ * Options for {@link transformRequest}.
+ */
+export interface TransformRequestOptions {
+  /**
+   * Whether the module is being transformed for SSR.
+   */
+  ssr?: boolean
+
+  /**
+   * Whether the request accepts HTML, i.e. a navigation request that may fall back to `index.html`.
+   */
+  html?: boolean
+}
+
+interface ExtendedError extends Error {
+  code?: string
+}
+
+/**
+ * Resolve, load, and transform a request URL with the server's plugin container.
+ *
+ * @returns The transformed code, or null if the request can't be handled.
+ */
+export async function transformRequest(
+  url: string,
+  server: DevelopmentServer,
+  options: TransformRequestOptions = {},
+): Promise<TransformResult | null> {
+  if (server._restartPromise && !options.ssr) {
+    throwClosedServerError()
+  }
+
+  url = removeTimestampQuery(url)
+
+  const { config, pluginContainer, moduleGraph, watcher } = server
+
+  const ssr = !!options.ssr
+
+  // Save the time that processing started, so the result isn't cached if
+  // the module is invalidated while it's being processed.
+  const timestamp = Date.now()
+
+  const mod = await moduleGraph.ensureEntryFromUrl(url, ssr)
+
+  const cached = ssr ? mod.ssrTransformResult : mod.transformResult
+
+  if (cached) {
+    debugCache?.(`[memory] ${formatUrl(url, config.root)}`)
+    return cached
+  }
+
+  const id = mod.id ?? url
+
+  const prettyUrl = debugLoad || debugTransform ? formatUrl(url, config.root) : ''
+
+  const file = cleanUrl(id)
+
+  let code: string | null = null
+
+  let map: SourceDescription['map'] | null = null
+
+  const loadStart = debugLoad ? performance.now() : 0
+
+  const loadResult = await pluginContainer.load(id, { ssr })
+
+  if (loadResult == null) {
+    // If this is an html request and there is no load result, skip ahead to the SPA fallback.
+    if (options.html && !id.endsWith('.html')) {
+      return null
+    }
+
+    // Files outside of `server.fs.allow` fall through to the static middlewares,
+    // which respond with a 403.
+    if (ssr || isFileServingAllowed(file, server)) {
+      try {
+        code = await fs.readFile(file, 'utf-8')
+        debugLoad?.(`${timeFrom(loadStart)} [fs] ${prettyUrl}`)
+      } catch (e) {
+        const error = e as ExtendedError
+
+        if (error.code !== 'ENOENT' && error.code !== 'EISDIR') {
+          throw error
+        }
+      }
+    }
+  } else {
+    debugLoad?.(`${timeFrom(loadStart)} [plugin] ${prettyUrl}`)
+
+    if (typeof loadResult === 'string') {
+      code = loadResult
+    } else {
+      code = loadResult.code
+      map = loadResult.map ?? null
+    }
+  }
+
+  if (code == null) {
+    const error: ExtendedError = new Error(
+      `Failed to load url ${url} (resolved id: ${id}). Does the file exist?`,
+    )
+    error.code = ERR_LOAD_URL
+    throw error
+  }
+
+  if (server._restartPromise && !ssr) {
+    throwClosedServerError()
+  }
+
+  ensureWatchedFile(watcher, file, config.root)
+
+  const transformStart = debugTransform ? performance.now() : 0
+
+  const transformResult = await pluginContainer.transform(code, id, { inMap: map, ssr })
+
+  debugTransform?.(`${timeFrom(transformStart)} ${prettyUrl}`)
+
+  code = transformResult.code ?? code
+
+  map = transformResult.map ?? map
+
+  if (!CSS_LANGS_REGEX.test(mod.url)) {
+    code = await analyzeImports(code, mod, server, ssr)
+  }
+
+  if (server._restartPromise && !ssr) {
+    throwClosedServerError()
+  }
+
+  const result: TransformResult = { code, map }
+
+  // Only cache the result if the module wasn't invalidated while it was being processed.
+  if (timestamp > mod.lastInvalidationTimestamp) {
+    if (ssr) {
+      mod.ssrTransformResult = result
+    } else {
+      mod.transformResult = result
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,353 @@
+import { createServer as createHttpServer, STATUS_CODES } from 'node:http'
+import type http from 'node:http'
+import { createServer as createHttpsServer } from 'node:https'
+import type https from 'node:https'
+import path from 'node:path'
+import type { Duplex } from 'node:stream'
+
+import type Connect from 'connect'
+import colors from 'picocolors'
+import { WebSocketServer as WebSocketServerRaw, type WebSocket as WebSocketRaw } from 'ws'
+
+import type { InferCustomEventPayload } from '../../types/customEvent.js'
+import type { CustomPayload, ErrorPayload, HMRPayload } from '../../types/hmrPayload.js'
+import type { ResolvedConfig } from '../config.js'
+import { DEFAULT_HMR_PORT, HMR_HEADER, PING_HEADER } from '../constants.js'
+import type { HttpServer } from '../http.js'
+
+/**
+ * Events that are emitted by the underlying `ws` server, instead of being sent by clients.
+ */
+const wsServerEvents = ['connection', 'error', 'headers', 'listening', 'message']
+
+export type WebSocketCustomListener<T> = (data: T, client: WebSocketClient) => void
+
+/**
+ * Sends HMR payloads from the development server to the connected clients,
+ * and receives custom events from them.
+ */
+export interface WebSocketServer {
+  /**
+   * Start accepting connections.
+   */
+  listen(): void
+
+  /**
+   * Get all connected clients.
+   */
+  clients: Set<WebSocketClient>
+
+  /**
+   * Broadcast a payload to all connected clients.
+   *
+   * Errors are buffered and sent to the next client that connects if there are no clients yet.
+   */
+  send(payload: HMRPayload): void
+
+  /**
+   * Broadcast a custom event to all connected clients.
+   */
+  send<T extends string>(event: T, payload?: InferCustomEventPayload<T>): void
+
+  /**
+   * Disconnect all clients and stop the server.
+   */
+  close(): Promise<void>
+
+  /**
+   * Handle custom event emitted by `import.meta.hot.send`, or an event of the underlying `ws` server.
+   */
+  on: WebSocketServerRaw['on'] & {
+    <T extends string>(
+      event: T,
+      listener: WebSocketCustomListener<InferCustomEventPayload<T>>,
+    ): void
+  }
+
+  /**
+   * Unregister an event listener.
+   */
+  off: WebSocketServerRaw['off'] & {
+    (event: string, listener: WebSocketCustomListener<never>): void
+  }
+}
+
+/**
+ * A connected client, which can be replied to directly.
+ */
+export interface WebSocketClient {
+  /**
+   * Send a payload to this client.
+   */
+  send(payload: HMRPayload): void
+
+  /**
+   * Send a custom event to this client.
+   */
+  send(event: string, payload?: CustomPayload['data']): void
+
+  /**
+   * The raw websocket instance.
+   *
+   * @advanced
+   */
+  socket: WebSocketRaw
+}
+
+/**
+ * Create the websocket server used for HMR.
+ *
+ * Upgrade requests with the {@link HMR_HEADER} subprotocol on the HMR base path
+ * are handled by `hmr.server` or the dev server if their ports are compatible.
+ * Otherwise, a standalone websocket server is created on its own port.
+ */
+export function createWebSocketServer(
+  server: HttpServer | null,
+  config: ResolvedConfig,
+  httpsOptions?: https.ServerOptions,
+): WebSocketServer {
+  const hmr = typeof config.server.hmr === 'object' ? config.server.hmr : undefined
+
+  const hmrServer = hmr?.server
+
+  const hmrPort = hmr?.port
+
+  // The main server port may not have been chosen yet, since it may use the next available one.
+  const portsAreCompatible = !hmrPort || hmrPort === config.server.port
+
+  const wsServer = hmrServer || (portsAreCompatible && server)
+
+  const customListeners = new Map<string, Set<WebSocketCustomListener<unknown>>>()
+
+  const clientsMap = new WeakMap<WebSocketRaw, WebSocketClient>()
+
+  const port = hmrPort || DEFAULT_HMR_PORT
+
+  const host = hmr?.host
+
+  let wss: WebSocketServerRaw
+
+  let wsHttpServer: http.Server | https.Server | undefined
+
+  if (wsServer) {
+    const hmrBase = hmr?.path ? path.posix.join(config.base, hmr.path) : config.base
+
+    wss = new WebSocketServerRaw({ noServer: true })
+
+    wsServer.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      // Leave other upgrade requests, e.g. proxied websockets, to their own handlers.
+      if (req.headers['sec-websocket-protocol'] === HMR_HEADER && req.url === hmrBase) {
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          wss.emit('connection', ws, req)
+        })
+      }
+    })
+  } else {
+    // Same as the request handler of the `ws` server.
+    // https://github.com/websockets/ws/blob/45e17acea791d865df6b255a55182e9c42e5877a/lib/websocket-server.js#L88-L96
+    const route: http.RequestListener = (_req, res) => {
+      const statusCode = 426
+
+      const body = STATUS_CODES[statusCode] ?? ''
+
+      res.writeHead(statusCode, {
+        'Content-Length': body.length,
+        'Content-Type': 'text/plain',
+      })
+
+      res.end(body)
+    }
+
+    wsHttpServer = httpsOptions ? createHttpsServer(httpsOptions, route) : createHttpServer(route)
+
+    wss = new WebSocketServerRaw({ server: wsHttpServer })
+  }
+
+  // On page reloads, if a file fails to compile and returns 500, the server sends the error
+  // before the client connection is established.
+  // If there are no open clients, buffer the error and send it to the next connected client.
+  let bufferedError: ErrorPayload | null = null
+
+  wss.on('connection', (socket) => {
+    socket.on('message', (raw) => {
+      if (!customListeners.size) {
+        return
+      }
+
+      let parsed: unknown
+
+      try {
+        parsed = JSON.parse(String(raw))
+      } catch {
+        // Ignore malformed messages.
+      }
+
+      // Only custom events are handled, i.e. the client's keep-alive pings are ignored.
+      if (!isCustomPayload(parsed)) {
+        return
+      }
+
+      const listeners = customListeners.get(parsed.event)
+
+      if (!listeners?.size) {
+        return
+      }
+
+      const { data } = parsed
+
+      const client = getSocketClient(socket)
+
+      listeners.forEach((listener) => listener(data, client))
+    })
+
+    socket.on('error', (err) => {
+      config.logger.error(`${colors.red(`ws error:`)}\n${err.stack}`, {
+        timestamp: true,
+        error: err,
+      })
+    })
+
+    socket.send(JSON.stringify({ type: 'connected' } satisfies HMRPayload))
+
+    if (bufferedError) {
+      socket.send(JSON.stringify(bufferedError))
+      bufferedError = null
+    }
+  })
+
+  wss.on('error', (e: Error & { code?: string }) => {
+    if (e.code === 'EADDRINUSE') {
+      config.logger.error(colors.red(`WebSocket server error: Port is already in use`), {
+        error: e,
+      })
+    } else {
+      config.logger.error(colors.red(`WebSocket server error:\n${e.stack || e.message}`), {
+        error: e,
+      })
+    }
+  })
+
+  /**
+   * Wrap the raw websocket, so messages can be sent in JSON format like {@link WebSocketServer.send}.
+   */
+  function getSocketClient(socket: WebSocketRaw): WebSocketClient {
+    let client = clientsMap.get(socket)
+
+    if (!client) {
+      client = {
+        send: (...args: [HMRPayload] | [string, unknown?]) => {
+          socket.send(JSON.stringify(toPayload(...args)))
+        },
+        socket,
+      }
+
+      clientsMap.set(socket, client)
+    }
+
+    return client
+  }
+
+  return {
+    listen() {
+      wsHttpServer?.listen(port, host)
+    },
+
+    on: ((event: string, listener: WebSocketCustomListener<unknown>) => {
+      if (wsServerEvents.includes(event)) {
+        wss.on(event, listener)
+        return
+      }
+
+      let listeners = customListeners.get(event)
+
+      if (!listeners) {
+        listeners = new Set()
+        customListeners.set(event, listeners)
+      }
+
+      listeners.add(listener)
+    }) as WebSocketServer['on'],
+
+    off: ((event: string, listener: WebSocketCustomListener<unknown>) => {
+      if (wsServerEvents.includes(event)) {
+        wss.off(event, listener)
+      } else {
+        customListeners.get(event)?.delete(listener)
+      }
+    }) as WebSocketServer['off'],
+
+    get clients() {
+      return new Set(Array.from(wss.clients).map(getSocketClient))
+    },
+
+    send(...args: [HMRPayload] | [string, unknown?]) {
+      const payload = toPayload(...args)
+
+      if (payload.type === 'error' && !wss.clients.size) {
+        bufferedError = payload
+        return
+      }
+
+      const stringified = JSON.stringify(payload)
+
+      wss.clients.forEach((client) => {
+        if (client.readyState === client.OPEN) {
+          client.send(stringified)
+        }
+      })
+    },
+
+    close() {
+      return new Promise((resolve, reject) => {
+        wss.clients.forEach((client) => client.terminate())
+
+        wss.close((err) => {
+          if (err) {
+            reject(err)
+          } else if (wsHttpServer) {
+            wsHttpServer.close((err) => (err ? reject(err) : resolve()))
+          } else {
+            resolve()
+          }
+        })
+      })
+    },
+  }
+}
+
+/**
+ * Respond to the requests that the client sends to check whether the server is back up,
+ * e.g. after a restart, without running them through the other middlewares.
+ */
+export function hmrPingMiddleware(): Connect.NextHandleFunction {
+  // Keep the named function. The name is visible in debug logs via `DEBUG=connect:dispatcher ...`
+  return function viteHMRPingMiddleware(req, res, next) {
+    if (req.headers.accept === PING_HEADER) {
+      res.writeHead(204).end()
+    } else {
+      next()
+    }
+  }
+}
+
+/**
+ * A custom event name and its data are shorthand for a {@link CustomPayload}.
+ */
+function toPayload(...args: [HMRPayload] | [string, unknown?]): HMRPayload {
+  if (typeof args[0] === 'string') {
+    return { type: 'custom', event: args[0], data: args[1] }
+  }
+
+  return args[0]
+}
+
+function isCustomPayload(payload: unknown): payload is CustomPayload {
+  return (
+    payload != null &&
+    typeof payload === 'object' &&
+    'type' in payload &&
+    payload.type === 'custom' &&
+    'event' in payload &&
+    typeof payload.event === 'string'
+  )
+}
@@ -0,0 +1,58 @@
+import path from 'node:path'
+
+import type { ResolvedConfig } from '../config.js'
+import type { Plugin } from '../plugin.js'
+import { joinUrlSegments, normalizePath } from '../utils.js'
+
+/**
+ * Emit a manifest that maps module ids to the files that should be preloaded when they're rendered.
+ */
+export function ssrManifestPlugin(config: ResolvedConfig): Plugin {
+  // module id => preload assets mapping
+  const ssrManifest: Record<string, string[]> = {}
+
+  const base = config.base
+
+  return {
+    name: 'vite:ssr-manifest',
+
+    generateBundle(_options, bundle) {
+      for (const file in bundle) {
+        const chunk = bundle[file]
+
+        if (chunk?.type !== 'chunk') {
+          continue
+        }
+
+        for (const id in chunk.modules) {
+          const normalizedId = normalizePath(path.relative(config.root, id))
+
+          const mappedChunks = (ssrManifest[normalizedId] ??= [])
+
+          // <link> tags for entry chunks are already generated in static HTML,
+          // so only non-entry chunks need to be recorded.
+          if (!chunk.isEntry) {
+            mappedChunks.push(joinUrlSegments(base, chunk.fileName))
+
+            chunk.viteMetadata?.importedCss.forEach((file) => {
+              mappedChunks.push(joinUrlSegments(base, file))
+            })
+          }
+
+          chunk.viteMetadata?.importedAssets.forEach((file) => {
+            mappedChunks.push(joinUrlSegments(base, file))
+          })
+        }
+      }
+
+      this.emitFile({
+        fileName:
+          typeof config.build.ssrManifiest === 'string'
+            ? config.build.ssrManifiest
+            : 'ssr-manifest.json',
+        type: 'asset',
+        source: JSON.stringify(ssrManifest, null, 2),
+      })
+    },
+  }
+}
@@ -3,6 +3,7 @@ import crypto from 'node:crypto'
 import { promises as dns } from 'node:dns'
 import fs from 'node:fs'
 import { builtinModules, createRequire } from 'node:module'
+import type { Server } from 'node:net'
 import os from 'node:os'
 import path from 'node:path'
 // import url from 'node:url'
@@ -17,16 +18,20 @@ import picocolors from 'picocolors'
 // import type MagicString from 'magic-string'
 // import type { TransformResult } from 'rollup'
 
+import type { ResolvedConfig } from './config.js'
 import {
   CLIENT_ENTRY,
   CLIENT_PUBLIC_PATH,
   ENV_PUBLIC_PATH,
+  EMITTED_ASSET_PREFIX,
   FS_PREFIX,
   NULL_BYTE_PLACEHOLDER,
   OPTIMIZABLE_ENTRY_REGEX,
   VALID_ID_PREFIX,
+  loopbackHosts,
   wildcardHosts,
 } from './constants.js'
+import type { CommonServerOptions } from './http.js'
 import type { ResolvedServerUrls } from './logger.js'
 import type { DependencyOptimizationConfig } from './optimizer/index.js'
 
@@ -374,7 +379,13 @@ const importQueryRegex = /(\?|&)import=?(?:&|$)/
 
 const directRequestRegex = /(\?|&)direct=?(?:&|$)/
 
-const internalPrefixes = [FS_PREFIX, VALID_ID_PREFIX, CLIENT_PUBLIC_PATH, ENV_PUBLIC_PATH]
+const internalPrefixes = [
+  FS_PREFIX,
+  VALID_ID_PREFIX,
+  CLIENT_PUBLIC_PATH,
+  ENV_PUBLIC_PATH,
+  EMITTED_ASSET_PREFIX,
+]
 
 const internalPrefixRegex = new RegExp(`^(?:${internalPrefixes.join('|')})`)
 
@@ -384,6 +395,10 @@ export function isImportRequest(url: string): boolean {
   return importQueryRegex.test(url)
 }
 
+export function isDirectRequest(url: string): boolean {
+  return directRequestRegex.test(url)
+}
+
 export function isInternalRequest(url: string): boolean {
   return internalPrefixRegex.test(url)
 }
@@ -483,6 +498,15 @@ export function tryStatSync(file: string): fs.Stats | undefined {
   }
 }
 
+export function isFileReadable(filename: string): boolean {
+  try {
+    fs.accessSync(filename, fs.constants.R_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
 export function lookupFile(directory: string, fileNames: string[]): string | undefined {
   let current = directory
 
@@ -546,6 +570,8 @@ export function positionToNumber(source: string, position: number | Position): n
 
 /**
  * Converts an absolute number position back to the origin {@link Position} object.
+ *
+ * Like Rollup's and source maps' positions, the line is 1-based and the column is 0-based.
  */
 export function numberToPosition(source: string, offset: number | Position): Position {
   if (typeof offset !== 'number') {
@@ -571,7 +597,7 @@ export function numberToPosition(source: string, offset: number | Position): Pos
     const lineLength = currentLine.length + 1
 
     if (numCharacters + lineLength > offset) {
-      column = offset - numCharacters + 1
+      column = offset - numCharacters
       break
     }
 
@@ -579,7 +605,7 @@ export function numberToPosition(source: string, offset: number | Position): Pos
     line++
   }
 
-  return { line, column }
+  return { line: line + 1, column }
 }
 
 export function generateCodeFrame(
@@ -599,13 +625,17 @@ export function generateCodeFrame(
   const res: string[] = []
 
   let numCharacters = 0
-  let i = 0
 
-  for (const line of lines) {
-    numCharacters += line.length + 1
+  for (let i = 0; i < lines.length; ++i) {
+    numCharacters += (lines[i]?.length ?? 0) + 1
+
+    // Skip the lines before the one that contains the starting position.
+    if (numCharacters < startNum) {
+      continue
+    }
 
     for (let j = i - range; j <= i + range || endNum > numCharacters; ++j) {
-      if (j < 0 || j > lines.length) {
+      if (j < 0 || j >= lines.length) {
         continue
       }
 
@@ -615,18 +645,22 @@ export function generateCodeFrame(
       const lineLength = lines[j]?.length ?? 0
 
       if (j === i) {
+        // Underline the starting line from the starting position.
         const pad = Math.max(startNum - (numCharacters - lineLength) + 1, 0)
         const length = Math.max(1, endNum > numCharacters ? lineLength - pad : endNum - startNum)
         res.push(`   |  ` + ' '.repeat(pad) + '^'.repeat(length))
       } else if (j > i) {
-        const length = Math.max(Math.min(endNum - numCharacters, lineLength), 1)
-        res.push(`   |  ` + '^'.repeat(length))
-      }
+        // Underline the following lines up to the end position.
+        if (endNum > numCharacters) {
+          const length = Math.max(Math.min(endNum - numCharacters, lineLength), 1)
+          res.push(`   |  ` + '^'.repeat(length))
+        }
 
-      numCharacters += lineLength + 1
+        numCharacters += lineLength + 1
+      }
     }
 
-    ++i
+    break
   }
 
   return res.join('\n')
@@ -1116,9 +1150,78 @@ export async function resolveHostname(optionsHost?: string | boolean): Promise<H
 }
 
 /**
- * TODO
+ * Resolve the URLs that a listening server can be reached at.
+ *
+ * - A specific host is either local (loopback) or on the network.
+ * - A wildcard host is reachable from every IPv4 network interface.
+ *
+ * @returns Empty lists if the server isn't listening on a network address, i.e. a pipe.
  */
-export async function resolveServerUrls() {}
+export async function resolveServerUrls(
+  server: Server,
+  options: CommonServerOptions,
+  config: ResolvedConfig,
+): Promise<ResolvedServerUrls> {
+  const address = server.address()
+
+  if (address == null || typeof address === 'string') {
+    return { local: [], network: [] }
+  }
+
+  const local: string[] = []
+
+  const network: string[] = []
+
+  const hostname = await resolveHostname(options.host)
+
+  const protocol = options.https ? 'https' : 'http'
+
+  const port = address.port
+
+  const base = config.rawBase === './' || config.rawBase === '' ? '/' : config.rawBase
+
+  if (hostname.host !== undefined && !wildcardHosts.has(hostname.host)) {
+    // ipv6 host
+    const host = hostname.name.includes(':') ? `[${hostname.name}]` : hostname.name
+
+    const url = `${protocol}://${host}:${port}${base}`
+
+    if (loopbackHosts.has(hostname.host)) {
+      local.push(url)
+    } else {
+      network.push(url)
+    }
+
+    return { local, network }
+  }
+
+  Object.values(os.networkInterfaces())
+    .flatMap((networkInterface) => networkInterface ?? [])
+    .filter(
+      (detail) =>
+        detail.address &&
+        // Node 18.0 - 18.3 returns a number.
+        (detail.family === 'IPv4' || (detail.family as string | number) === 4),
+    )
+    .forEach((detail) => {
+      let host = detail.address.replace('127.0.0.1', hostname.name)
+
+      // ipv6 host
+      if (host.includes(':')) {
+        host = `[${host}]`
+      }
+
+      const url = `${protocol}://${host}:${port}${base}`
+
+      if (detail.address.includes('127.0.0.1')) {
+        local.push(url)
+      } else {
+        network.push(url)
+      }
+    })
+
+  return { local, network }
+}
 
 export function toArray<T>(target: T | T[] = []): T[] {
   return Array.isArray(target) ? target : [target]
@@ -1328,7 +1431,7 @@ export async function asyncFlatten<T>(initialArray: T[]): Promise<T[]> {
 
   do {
     flattenedArray = await Promise.all(initialArray).then((array) => array.flat(Infinity) as T[])
-  } while (flattenedArray.some((item) => (item instanceof Promise ? item.then : item)))
+  } while (flattenedArray.some((item) => item instanceof Promise))
 
   return flattenedArray
 }
@@ -1431,6 +1534,23 @@ export function getNpmPackageName(importPath: string): string | null | undefined
   }
 }
 
+const htmlEscapeRegex = /[&<>"']/g
+
+const htmlEscapes: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+/**
+ * Escape characters that have special meaning in HTML.
+ */
+export function escapeHtml(str: string): string {
+  return str.replace(htmlEscapeRegex, (char) => htmlEscapes[char] ?? char)
+}
+
 const escapeRegexRegex = /[-/\\^$*+?.()|[\]{}]/g
 
 export function escapeRegex(str: string): string {
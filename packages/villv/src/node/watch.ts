@@ -1,5 +1,5 @@
 import type { WatchOptions } from 'chokidar'
-import { escapePath } from 'fast-glob'
+import fastGlob from 'fast-glob'
 
 import { DEFAULT_CACHE_DIRECTORY } from './constants.js'
 import { toArray } from './utils.js'
@@ -26,7 +26,11 @@ export function resolveChokidarOptions(
   const { ignored = [], ...otherOptions } = options
 
   const resolvedChokidarOptions: WatchOptions = {
-    ignored: [...DEFAULT_IGNORED_FILES, `${escapePath(cacheDirectory)}/**`, ...toArray(ignored)],
+    ignored: [
+      ...DEFAULT_IGNORED_FILES,
+      `${fastGlob.escapePath(cacheDirectory)}/**`,
+      ...toArray(ignored),
+    ],
     ignoreInitial: true,
     ignorePermissionErrors: true,
     ...otherOptions,
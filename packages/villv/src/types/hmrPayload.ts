@@ -82,7 +82,7 @@ export interface ErrorInfo {
  */
 export interface Loc {
   file?: string
-  line: string
+  line: number
   column: number
 }
 
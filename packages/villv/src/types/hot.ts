@@ -18,7 +18,10 @@ export interface ViteHotContext {
   accept(deps: readonly string[], cb: (mods?: (ModuleNamespace | undefined)[]) => void): void
 
   /**
-   * Idk what this does.
+   * Accept updates for the given exports of this module.
+   *
+   * Importers that only use accepted exports aren't updated.
+   * Requires `experimental.hmrPartialAccept`.
    */
   acceptExports(exportNames: string | readonly string[], cb: (mod?: ModuleNamespace) => void): void
 